@@ -11,3 +11,181 @@ export class DuplicateZipEntryError extends Error {
     return 'DuplicateZipFileEntry';
   }
 }
+
+export class UnsupportedPackageError extends Error {
+  path: string;
+
+  constructor(message: string, { path }: { path: string }) {
+    super(message);
+
+    this.path = path;
+  }
+
+  get name() {
+    return 'UnsupportedPackageError';
+  }
+}
+
+export class ZipBombError extends Error {
+  get name() {
+    return 'ZipBombError';
+  }
+}
+
+export class EntrySizeExceededError extends Error {
+  path: string;
+
+  limit: number;
+
+  constructor(
+    message: string,
+    { path, limit }: { path: string; limit: number },
+  ) {
+    super(message);
+
+    this.path = path;
+    this.limit = limit;
+  }
+
+  get name() {
+    return 'EntrySizeExceededError';
+  }
+}
+
+export class UnsafeZipEntryError extends Error {
+  path: string;
+
+  reason: string;
+
+  constructor(
+    message: string,
+    { path, reason }: { path: string; reason: string },
+  ) {
+    super(message);
+
+    this.path = path;
+    this.reason = reason;
+  }
+
+  get name() {
+    return 'UnsafeZipEntryError';
+  }
+}
+
+export class EntryNameCollisionError extends DuplicateZipEntryError {
+  path: string;
+
+  collidesWith: string;
+
+  constructor(
+    message: string,
+    { path, collidesWith }: { path: string; collidesWith: string },
+  ) {
+    super(message);
+
+    this.path = path;
+    this.collidesWith = collidesWith;
+  }
+
+  get name() {
+    return 'EntryNameCollisionError';
+  }
+}
+
+export class FileNotFoundInPackageError extends Error {
+  path: string;
+
+  constructor(message: string, { path }: { path: string }) {
+    super(message);
+
+    this.path = path;
+  }
+
+  get name() {
+    return 'FileNotFoundInPackageError';
+  }
+}
+
+export class FileTooLargeError extends Error {
+  path: string;
+
+  size: number;
+
+  limit: number;
+
+  constructor(
+    message: string,
+    { path, size, limit }: { path: string; size: number; limit: number },
+  ) {
+    super(message);
+
+    this.path = path;
+    this.size = size;
+    this.limit = limit;
+  }
+
+  get name() {
+    return 'FileTooLargeError';
+  }
+}
+
+export class InvalidCrxError extends Error {
+  // The CRX format version, or `null` when the header could not be read.
+  version: number | null;
+
+  constructor(message: string, { version }: { version: number | null }) {
+    super(message);
+
+    this.version = version;
+  }
+
+  get name() {
+    return 'InvalidCrxError';
+  }
+}
+
+export class EncryptedZipEntryError extends Error {
+  path: string;
+
+  constructor(message: string, { path }: { path: string }) {
+    super(message);
+
+    this.path = path;
+  }
+
+  get name() {
+    return 'EncryptedZipEntryError';
+  }
+}
+
+export class WalkLimitExceededError extends Error {
+  path: string;
+
+  // The name of the option that has been exceeded, e.g. `maxFiles`.
+  limitName: 'maxDepth' | 'maxFiles' | 'maxTotalSize';
+
+  limit: number;
+
+  constructor(
+    message: string,
+    {
+      path,
+      limitName,
+      limit,
+    }: {
+      path: string;
+      limitName: 'maxDepth' | 'maxFiles' | 'maxTotalSize';
+      limit: number;
+    },
+  ) {
+    super(message);
+
+    this.path = path;
+    this.limitName = limitName;
+    this.limit = limit;
+  }
+
+  get name() {
+    return 'WalkLimitExceededError';
+  }
+}
@@ -1,3 +1,6 @@
+import { createHash } from 'crypto';
+import { Readable } from 'stream';
+
 import { IOBase } from './base';
 import { FLAGGED_FILE_MAGIC_NUMBERS_LENGTH } from './const';
 import { createFakeStderr } from '../test-helpers';
@@ -55,6 +58,70 @@ describe(__filename, () => {
       );
     });
 
+    it('should reject calling getFileAsRawStream()', async () => {
+      const io = createIOBase();
+
+      await expect(io.getFileAsRawStream('file')).rejects.toThrow(
+        'getFileAsRawStream is not implemented',
+      );
+    });
+
+    it('should reject calling getFileInfo()', async () => {
+      const io = createIOBase();
+
+      await expect(io.getFileInfo('file')).rejects.toThrow(
+        'getFileInfo is not implemented',
+      );
+    });
+
+    it('should return the info of all the files via getFileInfos()', async () => {
+      const io = createIOBase();
+      io.getFiles = jest.fn().mockResolvedValue({ a: {}, b: {} });
+      io.getFileInfo = jest.fn(async (path) => ({
+        path,
+        size: 1,
+        compressedSize: null,
+        compressionMethod: null,
+        crc32: null,
+        lastModified: null,
+        mode: null,
+      }));
+
+      const infos = await io.getFileInfos();
+
+      expect(infos.map(({ path }) => path)).toEqual(['a', 'b']);
+      expect(io.getFileInfo).toHaveBeenCalledTimes(2);
+    });
+
+    it('should read the info of one file at a time via getFileInfos()', async () => {
+      const io = createIOBase();
+      io.getFiles = jest.fn().mockResolvedValue({ a: {}, b: {}, c: {} });
+      let pending = 0;
+      let maxPending = 0;
+      io.getFileInfo = jest.fn(async (path) => {
+        pending += 1;
+        maxPending = Math.max(maxPending, pending);
+        await new Promise((resolve) => {
+          setImmediate(resolve);
+        });
+        pending -= 1;
+
+        return {
+          path,
+          size: 1,
+          compressedSize: null,
+          compressionMethod: null,
+          crc32: null,
+          lastModified: null,
+          mode: null,
+        };
+      });
+
+      await io.getFileInfos();
+
+      expect(maxPending).toEqual(1);
+    });
+
     it('should call getFileAsStream method via getFile()', () => {
       const io = createIOBase();
       io.getFileAsStream = jest.fn();
@@ -69,6 +136,13 @@ describe(__filename, () => {
       expect(io.getFileAsString).toHaveBeenCalledWith('get-a-string');
     });
 
+    it('should call getFileAsBuffer method via getFile()', () => {
+      const io = createIOBase();
+      io.getFileAsBuffer = jest.fn();
+      io.getFile('get-a-buffer', 'buffer');
+      expect(io.getFileAsBuffer).toHaveBeenCalledWith('get-a-buffer');
+    });
+
     it('should call getChunkAsBuffer method via getFile()', () => {
       const io = createIOBase();
       io.getChunkAsBuffer = jest.fn();
@@ -105,4 +179,234 @@ describe(__filename, () => {
       expect(io.shouldScanFile('manifest.json', false)).toBeTruthy();
     });
   });
+
+  describe('getFileAsBuffer()', () => {
+    it('returns the raw content of a file', async () => {
+      const io = createIOBase();
+      const chunks = [Buffer.from([0xef, 0xbb, 0xbf]), Buffer.from([0, 1])];
+      io.getFileAsRawStream = jest
+        .fn()
+        .mockResolvedValue(Readable.from(chunks));
+
+      await expect(io.getFileAsBuffer('file')).resolves.toEqual(
+        Buffer.from([0xef, 0xbb, 0xbf, 0, 1]),
+      );
+    });
+
+    it('rejects when the stream emits an error', async () => {
+      const io = createIOBase();
+      io.getFileAsRawStream = jest.fn().mockResolvedValue(
+        new Readable({
+          read() {
+            this.destroy(new Error('read error'));
+          },
+        }),
+      );
+
+      await expect(io.getFileAsBuffer('file')).rejects.toThrow('read error');
+    });
+  });
+
+  describe('getFileAsText()', () => {
+    it('returns the decoded content and the encoding', async () => {
+      const io = createIOBase();
+      io.getFileAsBuffer = jest
+        .fn()
+        .mockResolvedValue(Buffer.from('caf\xe9', 'latin1'));
+
+      await expect(
+        io.getFileAsText('file', { fallbackEncoding: 'latin1' }),
+      ).resolves.toEqual({ content: 'café', encoding: 'windows-1252' });
+      expect(io.getFileAsBuffer).toHaveBeenCalledWith('file');
+    });
+  });
+
+  describe('getRangeAsBuffer()', () => {
+    it('reads the raw stream up to the end of the range', async () => {
+      const io = createIOBase();
+      io.getFileAsRawStream = jest
+        .fn()
+        .mockResolvedValue(
+          Readable.from([Buffer.from('0123'), Buffer.from('45')]),
+        );
+
+      await expect(io.getRangeAsBuffer('file', 2, 3)).resolves.toEqual(
+        Buffer.from('234'),
+      );
+    });
+
+    it('does not read the file for an empty range', async () => {
+      const io = createIOBase();
+      io.getFileAsRawStream = jest.fn();
+
+      await expect(io.getRangeAsBuffer('file', 2, 0)).resolves.toEqual(
+        Buffer.alloc(0),
+      );
+      expect(io.getFileAsRawStream).not.toHaveBeenCalled();
+    });
+
+    it('rejects an invalid range', async () => {
+      const io = createIOBase();
+
+      await expect(io.getRangeAsBuffer('file', 0, 1.5)).rejects.toThrow(
+        'Expected the offset and length of a range to be positive integers, got 1.5',
+      );
+    });
+  });
+
+  describe('iterateFiles()', () => {
+    const createIOBaseWithFiles = () => {
+      const io = createIOBase();
+      io.getFiles = jest.fn().mockResolvedValue({ 'a.js': {}, 'b.css': {} });
+      io.getFileInfo = jest.fn(async (path) => ({
+        path,
+        size: 1,
+        compressedSize: null,
+        compressionMethod: null,
+        crc32: null,
+        lastModified: null,
+        mode: null,
+      }));
+      return io;
+    };
+
+    it('yields the files with lazy accessors', async () => {
+      const io = createIOBaseWithFiles();
+      io.getFileAsBuffer = jest.fn().mockResolvedValue(Buffer.from('a'));
+      io.getFileAsString = jest.fn().mockResolvedValue('a');
+      io.getFileAsStream = jest.fn();
+
+      const files = [];
+      for await (const file of io.iterateFiles()) {
+        files.push(file);
+      }
+
+      expect(files.map(({ info }) => info.path)).toEqual(['a.js', 'b.css']);
+      expect(io.getFileAsBuffer).not.toHaveBeenCalled();
+
+      await expect(files[0].buffer()).resolves.toEqual(Buffer.from('a'));
+      await expect(
+        files[0].text({ fallbackEncoding: 'latin1' }),
+      ).resolves.toEqual('a');
+      await files[0].stream();
+      expect(io.getFileAsBuffer).toHaveBeenCalledWith('a.js');
+      expect(io.getFileAsString).toHaveBeenCalledWith('a.js', {
+        fallbackEncoding: 'latin1',
+      });
+      expect(io.getFileAsStream).toHaveBeenCalledWith('a.js');
+    });
+
+    it('only yields the files matching the filter', async () => {
+      const io = createIOBaseWithFiles();
+
+      const paths = [];
+      for await (const file of io.iterateFiles({
+        filter: ({ path }) => path.endsWith('.css'),
+      })) {
+        paths.push(file.info.path);
+      }
+
+      expect(paths).toEqual(['b.css']);
+    });
+  });
+
+  describe('hasBOM()', () => {
+    it('returns true when a file starts with a UTF-8 BOM', async () => {
+      const io = createIOBase();
+      io.getChunkAsBuffer = jest
+        .fn()
+        .mockResolvedValue(Buffer.from([0xef, 0xbb, 0xbf]));
+
+      await expect(io.hasBOM('file')).resolves.toEqual(true);
+      expect(io.getChunkAsBuffer).toHaveBeenCalledWith('file', 3);
+    });
+
+    it('returns false when a file does not start with a UTF-8 BOM', async () => {
+      const io = createIOBase();
+      io.getChunkAsBuffer = jest.fn().mockResolvedValue(Buffer.from('{}'));
+
+      await expect(io.hasBOM('file')).resolves.toEqual(false);
+    });
+  });
+
+  describe('getFileHash()', () => {
+    const sha256 = (data: string) => {
+      return createHash('sha256').update(data).digest('hex');
+    };
+
+    it('returns the hash of the raw content of a file', async () => {
+      const io = createIOBase();
+      io.getFileAsRawStream = jest
+        .fn()
+        .mockResolvedValue(Readable.from([Buffer.from('\ufeffcontent')]));
+
+      await expect(io.getFileHash('file')).resolves.toEqual(
+        sha256('\ufeffcontent'),
+      );
+      expect(io.getFileAsRawStream).toHaveBeenCalledWith('file');
+    });
+
+    it('supports other algorithms', async () => {
+      const io = createIOBase();
+      io.getFileAsRawStream = jest
+        .fn()
+        .mockResolvedValue(Readable.from([Buffer.from('content')]));
+
+      await expect(io.getFileHash('file', 'md5')).resolves.toEqual(
+        createHash('md5').update('content').digest('hex'),
+      );
+    });
+
+    it('caches the hashes', async () => {
+      const io = createIOBase();
+      io.getFileAsRawStream = jest.fn(async () => {
+        return Readable.from([Buffer.from('content')]);
+      });
+
+      await io.getFileHash('file');
+      await io.getFileHash('file');
+      await io.getFileHash('file', 'sha1');
+
+      expect(io.getFileAsRawStream).toHaveBeenCalledTimes(2);
+    });
+
+    it('rejects an unsupported algorithm before reading the file', async () => {
+      const io = createIOBase();
+      io.getFileAsRawStream = jest.fn();
+
+      await expect(io.getFileHash('file', 'whatever')).rejects.toThrow(
+        /Digest method not supported/,
+      );
+      expect(io.getFileAsRawStream).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getPackageHashes()', () => {
+    it('returns the hashes of all the files', async () => {
+      const io = createIOBase();
+      io.getFiles = jest.fn().mockResolvedValue({ a: {}, b: {} });
+      io.getFileHash = jest.fn(async (path) => `hash-of-${path}`);
+
+      await expect(io.getPackageHashes('sha1')).resolves.toEqual({
+        a: 'hash-of-a',
+        b: 'hash-of-b',
+      });
+      expect(io.getFileHash).toHaveBeenCalledWith('a', 'sha1');
+    });
+  });
+
+  describe('invalidate()', () => {
+    it('drops the cached data', () => {
+      const io = createIOBase();
+      io.files = { a: {} };
+      io.entries = ['a'];
+      io.fileHashes.set('sha256:a', 'hash');
+
+      io.invalidate();
+
+      expect(io.files).toEqual({});
+      expect(io.entries).toEqual([]);
+      expect(io.fileHashes.size).toEqual(0);
+    });
+  });
 });
@@ -1,14 +1,58 @@
+import { createHash } from 'crypto';
 import { Readable } from 'stream';
 
 import { oneLine } from 'common-tags';
 
-import { FLAGGED_FILE_MAGIC_NUMBERS_LENGTH, MAX_FILE_SIZE_MB } from './const';
+import {
+  FLAGGED_FILE_MAGIC_NUMBERS_LENGTH,
+  MAX_FILE_SIZE_MB,
+  UTF8_BOM,
+} from './const';
+import {
+  DecodeBufferOptions,
+  DecodedText,
+  checkRange,
+  createGlobMatcher,
+  decodeBuffer,
+  hashStream,
+  readBufferFromStream,
+  readRangeFromStream,
+} from './utils';
 import { Stderr } from '../stdio';
 
 type ScanFileFunction = (_path: string, isDirectory: boolean) => boolean;
 
 type Files = Record<string, unknown>;
 
+// The metadata of a file, regardless of the backend. The fields that a backend
+// cannot provide are set to `null`, e.g. a `Directory` has no compression
+// related data.
+export type FileInfo = {
+  path: string;
+  // The uncompressed size in bytes.
+  size: number;
+  compressedSize: number | null;
+  compressionMethod: number | null;
+  crc32: number | null;
+  lastModified: Date | null;
+  // The unix mode, including the file type bits (like `fs.Stats.mode`).
+  mode: number | null;
+};
+
+// A file yielded by `iterateFiles()`. The content is only read when one of
+// the functions is called.
+export type PackageFile = {
+  info: FileInfo;
+  buffer: () => Promise<Buffer>;
+  stream: () => Promise<Readable>;
+  text: (options?: DecodeBufferOptions) => Promise<string>;
+};
+
+export type IterateFilesOptions = {
+  // Only the files for which this function returns `true` are yielded.
+  filter?: (info: FileInfo) => boolean;
+};
+
 export type IOBaseConstructorParams = {
   filePath: string;
   stderr: Stderr;
@@ -26,6 +70,9 @@ export class IOBase {
 
   entries: string[];
 
+  // Maps `<algorithm>:<path>` to the hash of the file.
+  fileHashes: Map<string, string>;
+
   maxSizeBytes: number;
 
   shouldScanFile: ScanFileFunction;
@@ -35,6 +82,7 @@ export class IOBase {
     this.stderr = stderr;
     this.files = {};
     this.entries = [];
+    this.fileHashes = new Map();
     // If this is too large the node process will hit a RangeError
     // when it runs out of memory.
     this.maxSizeBytes = 1024 * 1024 * MAX_FILE_SIZE_MB;
@@ -51,7 +99,7 @@ export class IOBase {
 
   getFile(
     path: string,
-    fileStreamType: 'stream' | 'string' | 'chunk' = 'string',
+    fileStreamType: 'stream' | 'string' | 'chunk' | 'buffer' = 'string',
   ) {
     switch (fileStreamType) {
       case 'stream':
@@ -63,10 +111,12 @@ export class IOBase {
         // numbers in files, then there's no need to have the default be longer
         // than that.
         return this.getChunkAsBuffer(path, FLAGGED_FILE_MAGIC_NUMBERS_LENGTH);
+      case 'buffer':
+        return this.getFileAsBuffer(path);
       default:
-        throw new Error(oneLine`Unexpected fileStreamType
+        throw new TypeError(oneLine`Unexpected fileStreamType
           value "${fileStreamType}" should be one of "string",
-          "stream"`);
+          "stream", "chunk", "buffer"`);
     }
   }
 
@@ -92,6 +142,20 @@ export class IOBase {
     return files;
   }
 
+  // Returns the paths of the files matching the glob patterns, e.g.
+  // `content_scripts/**/*.js`. Patterns starting with `!` exclude the files
+  // they match, e.g. `!**/node_modules/**`.
+  async getFilesByGlob(...patterns: string[]) {
+    if (!patterns.length) {
+      return [];
+    }
+
+    const isMatch = createGlobMatcher(patterns);
+    const filesObject = await this.getFiles();
+
+    return Object.keys(filesObject).filter((filename) => isMatch(filename));
+  }
+
   // eslint-disable-next-line @typescript-eslint/no-unused-vars, @typescript-eslint/no-unsafe-function-type
   async getFiles(optionalArgument?: Function): Promise<Files> {
     throw new Error('getFiles is not implemented');
@@ -103,15 +167,172 @@ export class IOBase {
   }
 
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  async getFileAsString(path: string): Promise<string> {
+  async getFileAsRawStream(path: string): Promise<Readable> {
+    throw new Error('getFileAsRawStream is not implemented');
+  }
+
+  /*
+   * Returns the exact bytes of a file. Unlike `getFileAsString()`, a BOM is
+   * not stripped.
+   */
+  async getFileAsBuffer(path: string): Promise<Buffer> {
+    const readStream = await this.getFileAsRawStream(path);
+
+    return readBufferFromStream(readStream);
+  }
+
+  /*
+   * Returns the content of a file decoded according to its BOM (UTF-8,
+   * UTF-16LE or UTF-16BE) or with `fallbackEncoding` (UTF-8 by default), and
+   * the encoding that was used.
+   */
+  async getFileAsText(
+    path: string,
+    options: DecodeBufferOptions = {},
+  ): Promise<DecodedText> {
+    const buffer = await this.getFileAsBuffer(path);
+
+    return decodeBuffer(buffer, options);
+  }
+
+  /*
+   * Returns whether a file starts with a UTF-8 BOM, which is stripped when
+   * the file is read as a string.
+   */
+  async hasBOM(path: string): Promise<boolean> {
+    const chunk = await this.getChunkAsBuffer(path, UTF8_BOM.length);
+
+    return chunk.equals(UTF8_BOM);
+  }
+
+  /*
+   * Returns the hexadecimal hash of the raw bytes of a file, i.e. a BOM is
+   * part of the hashed content.
+   */
+  async getFileHash(path: string, algorithm = 'sha256'): Promise<string> {
+    const cacheKey = `${algorithm}:${path}`;
+    const cachedHash = this.fileHashes.get(cacheKey);
+
+    if (cachedHash) {
+      return cachedHash;
+    }
+
+    // This throws for an unsupported algorithm, before reading the file.
+    const hash = createHash(algorithm);
+    const fileHash = await hashStream(
+      await this.getFileAsRawStream(path),
+      hash,
+    );
+    this.fileHashes.set(cacheKey, fileHash);
+
+    return fileHash;
+  }
+
+  /*
+   * Returns the hashes of all the files, keyed by path.
+   */
+  async getPackageHashes(
+    algorithm = 'sha256',
+  ): Promise<Record<string, string>> {
+    const files = await this.getFiles();
+    const hashes: Record<string, string> = {};
+
+    // Files are hashed one after the other to avoid opening too many files
+    // at once.
+    for (const path of Object.keys(files)) {
+      hashes[path] = await this.getFileHash(path, algorithm);
+    }
+
+    return hashes;
+  }
+
+  /* eslint-disable @typescript-eslint/no-unused-vars */
+  async getFileAsString(
+    path: string,
+    options?: DecodeBufferOptions,
+  ): Promise<string> {
     throw new Error('getFileAsString is not implemented');
   }
+  /* eslint-enable @typescript-eslint/no-unused-vars */
+
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  async getFileInfo(path: string): Promise<FileInfo> {
+    throw new Error('getFileInfo is not implemented');
+  }
+
+  async getFileInfos(): Promise<FileInfo[]> {
+    const files = await this.getFiles();
+    const infos: FileInfo[] = [];
+
+    // Like in `getPackageHashes()`, the metadata is read one file after the
+    // other since it may require a file system call per file.
+    for (const path of Object.keys(files)) {
+      infos.push(await this.getFileInfo(path));
+    }
+
+    return infos;
+  }
+
+  /*
+   * Yields the files one after the other, which allows to process a package
+   * without keeping all the file contents around. Files excluded by
+   * `shouldScanFile` are not yielded.
+   */
+  async *iterateFiles({
+    filter = () => true,
+  }: IterateFilesOptions = {}): AsyncGenerator<PackageFile> {
+    const files = await this.getFiles();
+
+    for (const path of Object.keys(files)) {
+      const info = await this.getFileInfo(path);
+
+      if (filter(info)) {
+        yield {
+          info,
+          buffer: () => this.getFileAsBuffer(path),
+          stream: () => this.getFileAsStream(path),
+          text: (options) => this.getFileAsString(path, options),
+        };
+      }
+    }
+  }
 
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   async getChunkAsBuffer(path: string, chunkLength: number): Promise<Buffer> {
     throw new Error('getChunkAsBuffer is not implemented');
   }
 
+  /*
+   * Returns `length` bytes of a file starting at `offset`, or less when the
+   * file ends before. This implementation reads the file up to the end of the
+   * range, backends should override it when they can seek.
+   */
+  async getRangeAsBuffer(
+    path: string,
+    offset: number,
+    length: number,
+  ): Promise<Buffer> {
+    checkRange(offset, length);
+
+    if (length === 0) {
+      return Buffer.alloc(0);
+    }
+
+    const readStream = await this.getFileAsRawStream(path);
+
+    return readRangeFromStream(readStream, offset, length);
+  }
+
+  /*
+   * Drops the cached data so that the next calls rebuild it from the
+   * underlying package, e.g. when the content of a directory has changed.
+   */
+  invalidate() {
+    this.files = {};
+    this.entries = [];
+    this.fileHashes.clear();
+  }
+
   close() {
     // noop
   }
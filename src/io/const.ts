@@ -1,4 +1,6 @@
+export const DEFAULT_WALK_CONCURRENCY = 32;
 export const DEFLATE_COMPRESSION = 8;
 export const FLAGGED_FILE_MAGIC_NUMBERS_LENGTH = 4;
 export const MAX_FILE_SIZE_MB = 100;
 export const NO_COMPRESSION = 0;
+export const UTF8_BOM = Buffer.from([0xef, 0xbb, 0xbf]);
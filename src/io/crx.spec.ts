@@ -1,10 +1,12 @@
 import defaultFs from 'fs';
+import os from 'os';
 
 import yauzl, { Entry, ZipFile } from 'yauzl';
 
 import { defaultParseCRX, Crx } from './crx';
 import { Files } from './xpi';
 import { DEFLATE_COMPRESSION, NO_COMPRESSION } from './const';
+import { InvalidCrxError, ZipBombError } from '../errors';
 import { createFakeStderr, createFakeZipFile } from '../test-helpers';
 
 describe(__filename, () => {
@@ -147,6 +149,19 @@ describe(__filename, () => {
       await expect(notCrx.open()).rejects.toThrow(
         'Invalid header: Does not start with Cr24.',
       );
+      await expect(notCrx.open()).rejects.toMatchObject({ version: null });
+    });
+
+    it('should pass the budgets to the zip processing', async () => {
+      const myCrx = new Crx({
+        filePath: 'src/tests/fixtures/io/crx3.crx',
+        maxEntries: 2,
+        stderr: createFakeStderr(),
+      });
+
+      expect(myCrx.maxEntries).toEqual(2);
+      expect(myCrx.autoClose).toEqual(true);
+      await expect(myCrx.getFiles()).rejects.toThrow(ZipBombError);
     });
 
     it('should reject CRX4 files', async () => {
@@ -167,6 +182,190 @@ describe(__filename, () => {
       await expect(notCrx.open()).rejects.toThrow(
         'Unexpected crx format version number.',
       );
+      await expect(notCrx.open()).rejects.toThrow(InvalidCrxError);
+      await expect(notCrx.open()).rejects.toMatchObject({ version: 4 });
+    });
+
+    it('should throw an InvalidCrxError for a truncated header', () => {
+      expect(() => defaultParseCRX(Buffer.from('Cr'))).toThrow(InvalidCrxError);
+    });
+
+    it('should throw an InvalidCrxError without a version number', () => {
+      expect(() => defaultParseCRX(Buffer.from('Cr24'))).toThrow(
+        expect.objectContaining({
+          name: 'InvalidCrxError',
+          message: 'Invalid header: Missing version number.',
+          version: null,
+        }),
+      );
+    });
+
+    it('should throw an InvalidCrxError for a truncated CRX2 header', () => {
+      const buf = Buffer.from([67, 114, 50, 52, 2, 0, 0, 0]);
+
+      expect(() => defaultParseCRX(buf)).toThrow(
+        expect.objectContaining({
+          name: 'InvalidCrxError',
+          message:
+            'Invalid header: Expected a header of 16 bytes, got 8 bytes.',
+          version: 2,
+        }),
+      );
+    });
+
+    it('should throw an InvalidCrxError for a truncated CRX3 header', () => {
+      const buf = Buffer.from([67, 114, 50, 52, 3, 0, 0, 0]);
+
+      expect(() => defaultParseCRX(buf)).toThrow(
+        expect.objectContaining({ name: 'InvalidCrxError', version: 3 }),
+      );
+    });
+
+    it('should throw an InvalidCrxError when the CRX2 keys do not fit', () => {
+      const buf = Buffer.alloc(20);
+      buf.write('Cr24');
+      buf.writeUInt32LE(2, 4);
+      buf.writeUInt32LE(2, 8);
+      buf.writeUInt32LE(3, 12);
+
+      expect(() => defaultParseCRX(buf)).toThrow(
+        expect.objectContaining({
+          name: 'InvalidCrxError',
+          message:
+            'Invalid header: Expected a header of 21 bytes, got 20 bytes.',
+          version: 2,
+        }),
+      );
+    });
+
+    it('should throw an InvalidCrxError when the CRX3 header does not fit', () => {
+      const buf = Buffer.alloc(16);
+      buf.write('Cr24');
+      buf.writeUInt32LE(3, 4);
+      buf.writeUInt32LE(8, 8);
+
+      expect(() => defaultParseCRX(buf)).toThrow(
+        expect.objectContaining({ name: 'InvalidCrxError', version: 3 }),
+      );
+    });
+
+    it('should return the data after a CRX3 header', () => {
+      const buf = Buffer.alloc(16);
+      buf.write('Cr24');
+      buf.writeUInt32LE(3, 4);
+      buf.writeUInt32LE(2, 8);
+      buf.write('zi', 14);
+
+      expect(defaultParseCRX(buf)).toEqual(Buffer.from('zi'));
+    });
+  });
+
+  describe('getFilesByGlob()', () => {
+    it('returns the files of the CRX file matching the patterns', async () => {
+      const myCrx = new Crx({
+        filePath: 'src/tests/fixtures/io/crx3.crx',
+        stderr: createFakeStderr(),
+      });
+
+      await expect(myCrx.getFilesByGlob('scripts/*.js')).resolves.toEqual([
+        'scripts/background.js',
+      ]);
+    });
+  });
+
+  describe('iterateFiles()', () => {
+    it('yields the files of the CRX file', async () => {
+      const myCrx = new Crx({
+        filePath: 'src/tests/fixtures/io/crx3.crx',
+        stderr: createFakeStderr(),
+      });
+
+      const contents: { [path: string]: string } = {};
+      for await (const file of myCrx.iterateFiles()) {
+        contents[file.info.path] = await file.text();
+      }
+
+      expect(Object.keys(contents)).toEqual([
+        'manifest.json',
+        'scripts/background.js',
+      ]);
+      expect(JSON.parse(contents['manifest.json'])).toHaveProperty('name');
+    });
+  });
+
+  describe('getRangeAsBuffer()', () => {
+    it('returns a range of a deflated file', async () => {
+      const myCrx = new Crx({
+        filePath: 'src/tests/fixtures/io/crx3.crx',
+        stderr: createFakeStderr(),
+      });
+      await myCrx.getFiles();
+      const content = await myCrx.getFileAsBuffer('manifest.json');
+
+      await expect(
+        myCrx.getRangeAsBuffer('manifest.json', 600, 100),
+      ).resolves.toEqual(content.subarray(600));
+    });
+  });
+
+  describe('getFileInfos()', () => {
+    it('returns the metadata of the files in the CRX file', async () => {
+      const myCrx = new Crx({
+        filePath: 'src/tests/fixtures/io/crx3.crx',
+        stderr: createFakeStderr(),
+      });
+
+      const infos = await myCrx.getFileInfos();
+
+      expect(infos.map(({ path }) => path)).toEqual([
+        'manifest.json',
+        'scripts/background.js',
+      ]);
+      expect(infos[0]).toEqual(
+        expect.objectContaining({
+          compressedSize: expect.any(Number),
+          crc32: expect.any(Number),
+          lastModified: expect.any(Date),
+        }),
+      );
+    });
+  });
+
+  describe('extractTo()', () => {
+    it('extracts the files of the CRX file', async () => {
+      const tmpDir = defaultFs.mkdtempSync(`${os.tmpdir()}/extract-test-`);
+      const myCrx = new Crx({
+        filePath: 'src/tests/fixtures/io/crx3.crx',
+        stderr: createFakeStderr(),
+      });
+
+      try {
+        const directory = await myCrx.extractTo(tmpDir);
+
+        expect(Object.keys(await directory.getFiles())).toEqual([
+          'manifest.json',
+          'scripts/background.js',
+        ]);
+        expect(defaultFs.readFileSync(`${tmpDir}/manifest.json`)).toEqual(
+          await myCrx.getFileAsBuffer('manifest.json'),
+        );
+      } finally {
+        defaultFs.rmSync(tmpDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('getArchiveReport()', () => {
+    it('returns a report for the ZIP data without the CRX header', async () => {
+      const myCrx = new Crx({
+        filePath: 'src/tests/fixtures/io/crx3.crx',
+        stderr: createFakeStderr(),
+      });
+
+      const report = await myCrx.getArchiveReport();
+
+      expect(report.prependedBytes).toEqual(0);
+      expect(report.entryCount).toEqual(3);
     });
   });
 
@@ -233,6 +432,7 @@ describe(__filename, () => {
       fromBufferStub.mockImplementation(
         (
           buffer: Buffer,
+          options: yauzl.Options,
           callback: (err: Error | null, zipfile?: ZipFile) => void,
         ) => {
           setImmediate(() => callback(null, fakeZipFile));
@@ -258,6 +458,11 @@ describe(__filename, () => {
       const files = await myCrx.getFiles(onEventsSubscribed);
 
       expect(files).toEqual(expected);
+      expect(fromBufferStub).toHaveBeenCalledWith(
+        Buffer.from('foo'),
+        expect.objectContaining({ decodeStrings: true, strictFileNames: true }),
+        expect.any(Function),
+      );
     });
 
     it('should reject on errors in readFile() in open()', async () => {
@@ -308,6 +513,7 @@ describe(__filename, () => {
       fromBufferStub.mockImplementation(
         (
           buffer: Buffer,
+          options: yauzl.Options,
           callback: (err: Error | null, zipfile?: ZipFile) => void,
         ) => {
           setImmediate(() => callback(new Error('open test'), fakeZipFile));
@@ -1,37 +1,65 @@
 import defaultFs from 'fs';
 
 import yauzl, { ZipFile } from 'yauzl';
+import { oneLine } from 'common-tags';
 
-import { IOBaseConstructorParams } from './base';
-import { Xpi } from './xpi';
+import { Xpi, XpiConstructorParams } from './xpi';
+import { InvalidCrxError } from '../errors';
 
 export function defaultParseCRX(buf: Buffer): Buffer {
-  if (buf.readUInt32BE(0) !== 0x43723234) {
-    throw new Error('Invalid header: Does not start with Cr24.');
+  if (buf.length < 4 || buf.readUInt32BE(0) !== 0x43723234) {
+    throw new InvalidCrxError('Invalid header: Does not start with Cr24.', {
+      version: null,
+    });
+  }
+
+  if (buf.length < 8) {
+    throw new InvalidCrxError('Invalid header: Missing version number.', {
+      version: null,
+    });
   }
 
   const version = buf.readUInt32LE(4);
 
+  // The header lengths come from the file, so they are checked against the
+  // size of the file before being used.
+  const checkHeaderLength = (headerLength: number) => {
+    if (buf.length < headerLength) {
+      throw new InvalidCrxError(
+        oneLine`Invalid header: Expected a header of
+        ${headerLength} bytes, got ${buf.length} bytes.`,
+        { version },
+      );
+    }
+  };
+
   if (version === 2) {
+    // 16 = Magic number (4), CRX format version (4), lengths (2x4)
+    checkHeaderLength(16);
     const publicKeyLength = buf.readUInt32LE(8);
     const signatureLength = buf.readUInt32LE(12);
-    // 16 = Magic number (4), CRX format version (4), lengths (2x4)
+    checkHeaderLength(16 + publicKeyLength + signatureLength);
+
     return buf.slice(16 + publicKeyLength + signatureLength);
   }
 
   if (version === 3) {
-    const crx3HeaderLength = buf.readUInt32LE(8);
     // 12 = Magic number (4), CRX format version (4), header length (4)
+    checkHeaderLength(12);
+    const crx3HeaderLength = buf.readUInt32LE(8);
+    checkHeaderLength(12 + crx3HeaderLength);
+
     return buf.slice(12 + crx3HeaderLength);
   }
 
-  throw new Error('Unexpected crx format version number.');
+  throw new InvalidCrxError('Unexpected crx format version number.', {
+    version,
+  });
 }
 
-type CrxConstructorParams = IOBaseConstructorParams & {
+type CrxConstructorParams = Omit<XpiConstructorParams, 'autoClose'> & {
   fs?: typeof defaultFs;
   parseCRX?: typeof defaultParseCRX;
-  zipLib?: typeof yauzl;
 };
 
 /*
@@ -45,19 +73,20 @@ export class Crx extends Xpi {
   parseCRX: typeof defaultParseCRX;
 
   constructor({
-    filePath,
-    stderr,
     fs = defaultFs,
     parseCRX = defaultParseCRX,
-    zipLib = yauzl,
+    ...xpiParams
   }: CrxConstructorParams) {
-    super({ filePath, stderr, zipLib, autoClose: true });
+    super({ ...xpiParams, autoClose: true });
 
     this.fs = fs;
     this.parseCRX = parseCRX;
   }
 
-  open(): Promise<ZipFile> {
+  /*
+   * Returns the ZIP data of the CRX file, i.e. without the CRX header.
+   */
+  readArchive(): Promise<Buffer> {
     return new Promise((resolve, reject) => {
       this.fs.readFile(this.path, (err, buf) => {
         if (err) {
@@ -75,14 +104,22 @@ export class Crx extends Xpi {
           return;
         }
 
-        this.zipLib.fromBuffer(zipBuffer, (err3, zipfile) => {
-          if (err3) {
-            reject(err3);
-            return;
-          }
+        resolve(zipBuffer);
+      });
+    });
+  }
+
+  async openZipFile(options: yauzl.Options): Promise<ZipFile> {
+    const zipBuffer = await this.readArchive();
+
+    return new Promise((resolve, reject) => {
+      this.zipLib.fromBuffer(zipBuffer, options, (err, zipfile) => {
+        if (err) {
+          reject(err);
+          return;
+        }
 
-          resolve(zipfile as ZipFile);
-        });
+        resolve(zipfile as ZipFile);
       });
     });
   }
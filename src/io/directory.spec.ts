@@ -1,7 +1,17 @@
+import { createHash } from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
 import { Readable } from 'stream';
 import { EventEmitter } from 'events';
 
+import { DEFAULT_WALK_CONCURRENCY } from './const';
 import { Directory } from './directory';
+import {
+  FileNotFoundInPackageError,
+  FileTooLargeError,
+  WalkLimitExceededError,
+} from '../errors';
 import { createFakeStderr, readStringFromStream } from '../test-helpers';
 
 describe(__filename, () => {
@@ -58,6 +68,176 @@ describe(__filename, () => {
       expect(fileNames).not.toContain('dir2/dir3/file3.txt');
     });
 
+    it('lists the entries sorted by path', async () => {
+      const myDirectory = createDirectory();
+
+      await myDirectory.getFiles();
+
+      expect(myDirectory.entries.length).toBeGreaterThan(1);
+      expect(myDirectory.entries).toEqual([...myDirectory.entries].sort());
+      expect(Object.keys(myDirectory.files)).toEqual(myDirectory.entries);
+    });
+
+    describe('symlinks', () => {
+      let tmpDir: string;
+
+      beforeEach(() => {
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'directory-test-'));
+        fs.writeFileSync(path.join(tmpDir, 'file.txt'), 'file');
+        fs.symlinkSync('file.txt', path.join(tmpDir, 'link'));
+      });
+
+      afterEach(() => {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+      });
+
+      it('keeps track of the skipped symlinks', async () => {
+        const myDirectory = createDirectory({ filePath: tmpDir });
+
+        const files = await myDirectory.getFiles();
+
+        expect(Object.keys(files)).toEqual(['file.txt']);
+        expect(myDirectory.skippedSymlinks).toEqual([
+          { path: 'link', target: null, reason: 'not-followed' },
+        ]);
+      });
+
+      it('can be configured to follow symlinks', async () => {
+        const myDirectory = new Directory({
+          filePath: tmpDir,
+          stderr: createFakeStderr(),
+          symlinks: 'follow-inside-root',
+        });
+
+        const files = await myDirectory.getFiles();
+
+        expect(Object.keys(files)).toEqual(['file.txt', 'link']);
+        expect(myDirectory.skippedSymlinks).toEqual([]);
+        await expect(myDirectory.getFileAsString('link')).resolves.toEqual(
+          'file',
+        );
+        await expect(myDirectory.getFileInfo('link')).resolves.toMatchObject({
+          path: 'link',
+          size: 4,
+        });
+      });
+    });
+
+    it('passes the ignore files to walkPromise()', async () => {
+      const myDirectory = new Directory({
+        filePath: 'src/tests/fixtures/io/',
+        ignoreFileNames: ['.gitignore'],
+        ignoreFiles: ['.extraignore'],
+        stderr: createFakeStderr(),
+      });
+      const fakeWalkPromise = jest.fn().mockResolvedValue({});
+
+      await myDirectory.getFiles(fakeWalkPromise);
+
+      expect(fakeWalkPromise).toHaveBeenCalledWith(
+        'src/tests/fixtures/io/',
+        expect.objectContaining({
+          ignoreFileNames: ['.gitignore'],
+          ignoreFiles: ['.extraignore'],
+        }),
+      );
+    });
+
+    it('passes the walk limits to walkPromise()', async () => {
+      const myDirectory = new Directory({
+        filePath: 'src/tests/fixtures/io/',
+        maxDepth: 1,
+        maxFiles: 2,
+        maxTotalSize: 3,
+        stderr: createFakeStderr(),
+        truncate: true,
+      });
+      const fakeWalkPromise = jest.fn().mockResolvedValue({});
+
+      await myDirectory.getFiles(fakeWalkPromise);
+
+      expect(fakeWalkPromise).toHaveBeenCalledWith(
+        'src/tests/fixtures/io/',
+        expect.objectContaining({
+          maxDepth: 1,
+          maxFiles: 2,
+          maxTotalSize: 3,
+          truncate: true,
+        }),
+      );
+    });
+
+    it('rejects when a walk limit is exceeded', async () => {
+      const myDirectory = new Directory({
+        filePath: 'src/tests/fixtures/io/',
+        maxFiles: 1,
+        stderr: createFakeStderr(),
+      });
+
+      await expect(myDirectory.getFiles()).rejects.toThrow(
+        WalkLimitExceededError,
+      );
+    });
+
+    it('counts the files that are not scanned in the walk limits', async () => {
+      const myDirectory = new Directory({
+        filePath: 'src/tests/fixtures/io/dir2/',
+        maxFiles: 2,
+        stderr: createFakeStderr(),
+      });
+      myDirectory.setScanFileCallback((filePath) => filePath === 'file2.txt');
+
+      await expect(myDirectory.getFiles()).rejects.toThrow(
+        WalkLimitExceededError,
+      );
+    });
+
+    it('keeps track of a truncated walk', async () => {
+      const myDirectory = new Directory({
+        filePath: 'src/tests/fixtures/io/',
+        maxFiles: 1,
+        stderr: createFakeStderr(),
+        truncate: true,
+      });
+
+      const files = await myDirectory.getFiles();
+
+      expect(Object.keys(files)).toHaveLength(1);
+      expect(myDirectory.truncated).toEqual(true);
+
+      myDirectory.invalidate();
+
+      expect(myDirectory.truncated).toEqual(false);
+    });
+
+    it('passes the walk concurrency to walkPromise()', async () => {
+      const myDirectory = new Directory({
+        filePath: 'src/tests/fixtures/io/',
+        stderr: createFakeStderr(),
+        walkConcurrency: 3,
+      });
+      const fakeWalkPromise = jest.fn().mockResolvedValue({});
+
+      await myDirectory.getFiles(fakeWalkPromise);
+
+      expect(fakeWalkPromise).toHaveBeenCalledWith(
+        'src/tests/fixtures/io/',
+        expect.objectContaining({ concurrency: 3 }),
+      );
+    });
+
+    it('uses a default walk concurrency', async () => {
+      const myDirectory = createDirectory();
+      const fakeWalkPromise = jest.fn().mockResolvedValue({});
+
+      await myDirectory.getFiles(fakeWalkPromise);
+
+      expect(fakeWalkPromise).toHaveBeenCalledWith(
+        'src/tests/fixtures/io/',
+        expect.objectContaining({ concurrency: DEFAULT_WALK_CONCURRENCY }),
+      );
+    });
+
     it('can be configured to scan all dirs and to include a single file', async () => {
       const myDirectory = createDirectory();
       myDirectory.setScanFileCallback((filePath, isDir) => {
@@ -75,6 +255,90 @@ describe(__filename, () => {
     });
   });
 
+  describe('cached files', () => {
+    it('applies the current scan callback to the cached files', async () => {
+      const myDirectory = createDirectory();
+      const fakeWalkPromise = jest.fn().mockResolvedValue({
+        'dir1/file1.txt': fakeFile,
+        'dir2/file2.txt': fakeFile,
+        'dir2/dir3/file3.txt': fakeFile,
+      });
+
+      await myDirectory.getFiles(fakeWalkPromise);
+      myDirectory.setScanFileCallback((filePath, isDirectory) => {
+        return isDirectory ? filePath !== 'dir2/dir3' : true;
+      });
+
+      const files = await myDirectory.getFiles(fakeWalkPromise);
+
+      expect(Object.keys(files)).toEqual(['dir1/file1.txt', 'dir2/file2.txt']);
+      expect(myDirectory.entries).toEqual(['dir1/file1.txt', 'dir2/file2.txt']);
+      // The full index is kept.
+      expect(Object.keys(myDirectory.files)).toHaveLength(3);
+
+      myDirectory.setScanFileCallback(() => true);
+
+      await expect(
+        myDirectory.getFiles(fakeWalkPromise),
+      ).resolves.toHaveProperty(['dir2/dir3/file3.txt']);
+      expect(fakeWalkPromise).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not pass the scan callback to walkPromise()', async () => {
+      const myDirectory = createDirectory();
+      myDirectory.setScanFileCallback(() => false);
+      const fakeWalkPromise = jest.fn().mockResolvedValue({});
+
+      await myDirectory.getFiles(fakeWalkPromise);
+
+      expect(fakeWalkPromise).toHaveBeenCalledWith(
+        'src/tests/fixtures/io/',
+        expect.not.objectContaining({ shouldIncludePath: expect.anything() }),
+      );
+    });
+
+    describe('invalidate()', () => {
+      let tmpDir: string;
+
+      beforeEach(() => {
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'directory-test-'));
+        fs.writeFileSync(path.join(tmpDir, 'file.txt'), 'file');
+      });
+
+      afterEach(() => {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+      });
+
+      it('rebuilds the index on the next call', async () => {
+        const myDirectory = createDirectory({ filePath: tmpDir });
+        await myDirectory.getFiles();
+        await myDirectory.getFileHash('file.txt');
+
+        fs.writeFileSync(path.join(tmpDir, 'file.txt'), 'changed');
+        fs.writeFileSync(path.join(tmpDir, 'new.txt'), 'new');
+        myDirectory.invalidate();
+
+        const files = await myDirectory.getFiles();
+
+        expect(Object.keys(files)).toEqual(['file.txt', 'new.txt']);
+        expect(files['file.txt'].size).toEqual(7);
+        await expect(myDirectory.getFileHash('file.txt')).resolves.toEqual(
+          createHash('sha256').update('changed').digest('hex'),
+        );
+      });
+
+      it('resets the skipped symlinks', async () => {
+        fs.symlinkSync('file.txt', path.join(tmpDir, 'link'));
+        const myDirectory = createDirectory({ filePath: tmpDir });
+        await myDirectory.getFiles();
+
+        myDirectory.invalidate();
+
+        expect(myDirectory.skippedSymlinks).toEqual([]);
+      });
+    });
+  });
+
   describe('getPath()', () => {
     it('should reject if not a file that exists', async () => {
       const myDirectory = createDirectory();
@@ -85,6 +349,47 @@ describe(__filename, () => {
       );
     });
 
+    it('should throw a FileNotFoundInPackageError if the file does not exist', async () => {
+      const myDirectory = createDirectory();
+
+      await myDirectory.getFiles();
+      const promise = myDirectory.getPath('whatever');
+
+      await expect(promise).rejects.toThrow(FileNotFoundInPackageError);
+      await expect(promise).rejects.toMatchObject({ path: 'whatever' });
+    });
+
+    it('should throw a FileNotFoundInPackageError if the file is not scanned', async () => {
+      const myDirectory = createDirectory();
+      myDirectory.setScanFileCallback((filePath, isDirectory) => {
+        return isDirectory ? filePath !== 'dir2/dir3' : true;
+      });
+
+      await myDirectory.getFiles();
+
+      await expect(myDirectory.getPath('dir2/dir3/file3.txt')).rejects.toThrow(
+        FileNotFoundInPackageError,
+      );
+      await expect(myDirectory.getPath('dir2/file2.txt')).resolves.toEqual(
+        path.resolve(myDirectory.path, 'dir2/file2.txt'),
+      );
+    });
+
+    it('should throw a FileTooLargeError if the file is too big', async () => {
+      const myDirectory = createDirectory();
+      const size = 1024 * 1024 * 102;
+      myDirectory.files = { 'manifest.json': { size } };
+
+      const promise = myDirectory.getPath('manifest.json');
+
+      await expect(promise).rejects.toThrow(FileTooLargeError);
+      await expect(promise).rejects.toMatchObject({
+        path: 'manifest.json',
+        size,
+        limit: myDirectory.maxSizeBytes,
+      });
+    });
+
     it('should reject if path does not start with base', async () => {
       const myDirectory = createDirectory();
       myDirectory.files = {
@@ -106,6 +411,38 @@ describe(__filename, () => {
         'Path argument must be relative',
       );
     });
+    it('should reject if path contains a parent directory', async () => {
+      const myDirectory = createDirectory();
+      myDirectory.files = {
+        'dir1/../../file1.txt': { ...fakeFile },
+      };
+
+      await expect(myDirectory.getPath('dir1/../../file1.txt')).rejects.toThrow(
+        'Path argument must be relative',
+      );
+    });
+
+    it('should accept paths that only look like drive letters', async () => {
+      const myDirectory = createDirectory();
+      myDirectory.files = {
+        'c:notes.txt': { ...fakeFile },
+      };
+
+      await expect(myDirectory.getPath('c:notes.txt')).resolves.toEqual(
+        path.resolve('src/tests/fixtures/io/c:notes.txt'),
+      );
+    });
+
+    it('should accept paths that only look like parent directories', async () => {
+      const myDirectory = createDirectory();
+      myDirectory.files = {
+        '..file1.txt': { ...fakeFile },
+      };
+
+      await expect(myDirectory.getPath('..file1.txt')).resolves.toEqual(
+        path.resolve('src/tests/fixtures/io/..file1.txt'),
+      );
+    });
   });
 
   describe('getFileAsStream()', () => {
@@ -181,6 +518,29 @@ describe(__filename, () => {
       expect(content.charCodeAt(0)).not.toEqual(0xfeff);
     });
 
+    it('should decode a UTF-16 file according to its BOM', async () => {
+      const myDirectory = createDirectory();
+
+      await myDirectory.getFiles();
+      await expect(
+        myDirectory.getFileAsString('dir3/utf16le.txt'),
+      ).resolves.toBe('héllo\n');
+    });
+
+    it('should use the fallback encoding when there is no BOM', async () => {
+      const myDirectory = createDirectory();
+
+      await myDirectory.getFiles();
+      await expect(
+        myDirectory.getFileAsString('dir3/latin1.txt', {
+          fallbackEncoding: 'latin1',
+        }),
+      ).resolves.toBe('café\n');
+      await expect(
+        myDirectory.getFileAsText('dir3/latin1.txt'),
+      ).resolves.toEqual({ content: 'caf\ufffd\n', encoding: 'utf-8' });
+    });
+
     it('should return a string', async () => {
       const myDirectory = createDirectory();
 
@@ -199,7 +559,7 @@ describe(__filename, () => {
         'chrome.manifest': { ...fakeFile },
       };
 
-      myDirectory.getFileAsStream = () => {
+      myDirectory.getFileAsRawStream = () => {
         setTimeout(() => {
           fakeStreamEmitter.emit('error', new Error('¡hola!'));
         }, 0);
@@ -229,6 +589,155 @@ describe(__filename, () => {
 
   // Using a file located in: src/tests/fixtures/io/dir2/dir3/file3.txt
   // The location is not relevant, the file contents are.
+  describe('getFileAsBuffer()', () => {
+    it('does not strip a BOM', async () => {
+      const myDirectory = createDirectory();
+
+      await myDirectory.getFiles();
+      const buffer = await myDirectory.getFileAsBuffer('dir3/foo.txt');
+
+      expect(buffer.subarray(0, 3)).toEqual(Buffer.from([0xef, 0xbb, 0xbf]));
+      await expect(myDirectory.hasBOM('dir3/foo.txt')).resolves.toEqual(true);
+      await expect(myDirectory.hasBOM('dir2/dir3/file3.txt')).resolves.toEqual(
+        false,
+      );
+    });
+  });
+
+  describe('getFilesByGlob()', () => {
+    it('matches the relative paths of the files', async () => {
+      const myDirectory = createDirectory();
+
+      const files = await myDirectory.getFilesByGlob(
+        'dir2/**/*.txt',
+        '!**/dir3/**',
+      );
+
+      expect(files).toEqual(['dir2/file2.txt']);
+    });
+  });
+
+  describe('iterateFiles()', () => {
+    it('yields the files of the directory', async () => {
+      const myDirectory = createDirectory();
+      myDirectory.setScanFileCallback((filePath) => filePath !== 'dir1');
+
+      const contents: { [path: string]: string } = {};
+      for await (const file of myDirectory.iterateFiles({
+        filter: ({ path: filePath }) => filePath.endsWith('.txt'),
+      })) {
+        contents[file.info.path] = await file.text();
+      }
+
+      expect(contents).toEqual(
+        expect.objectContaining({
+          'dir2/file2.txt': expect.any(String),
+          'dir2/dir3/file3.txt': '123\n',
+        }),
+      );
+      expect(contents).not.toHaveProperty(['dir1/file1.txt']);
+      expect(contents).not.toHaveProperty(['dir2/dir3/file.png']);
+    });
+  });
+
+  describe('getRangeAsBuffer()', () => {
+    it('returns a range of a file', async () => {
+      const myDirectory = createDirectory();
+
+      await myDirectory.getFiles();
+
+      // The file contains: 123\n.
+      await expect(
+        myDirectory.getRangeAsBuffer('dir2/dir3/file3.txt', 1, 2),
+      ).resolves.toEqual(Buffer.from('23'));
+      await expect(
+        myDirectory.getRangeAsBuffer('dir2/dir3/file3.txt', 2, 10),
+      ).resolves.toEqual(Buffer.from('3\n'));
+      await expect(
+        myDirectory.getRangeAsBuffer('dir2/dir3/file3.txt', 10, 2),
+      ).resolves.toEqual(Buffer.alloc(0));
+    });
+
+    it('rejects if the file does not exist', async () => {
+      const myDirectory = createDirectory();
+
+      await myDirectory.getFiles();
+
+      await expect(
+        myDirectory.getRangeAsBuffer('whatever', 0, 2),
+      ).rejects.toThrow(FileNotFoundInPackageError);
+    });
+  });
+
+  describe('getFileHash()', () => {
+    it('returns the hash of the raw content of a file', async () => {
+      const myDirectory = createDirectory();
+      const content = fs.readFileSync(
+        path.join(myDirectory.path, 'dir3/foo.txt'),
+      );
+
+      await myDirectory.getFiles();
+
+      await expect(myDirectory.getFileHash('dir3/foo.txt')).resolves.toEqual(
+        createHash('sha256').update(content).digest('hex'),
+      );
+    });
+
+    it('rejects when the file is too large', async () => {
+      const myDirectory = createDirectory();
+      myDirectory.files = { 'manifest.json': { size: 1024 * 1024 * 102 } };
+
+      await expect(myDirectory.getFileHash('manifest.json')).rejects.toThrow(
+        FileTooLargeError,
+      );
+    });
+  });
+
+  describe('getFileInfo()', () => {
+    it('returns the metadata of a file', async () => {
+      const myDirectory = createDirectory();
+      const stats = fs.lstatSync(
+        path.join(myDirectory.path, 'dir2/dir3/file3.txt'),
+      );
+
+      await myDirectory.getFiles();
+
+      await expect(
+        myDirectory.getFileInfo('dir2/dir3/file3.txt'),
+      ).resolves.toEqual({
+        path: 'dir2/dir3/file3.txt',
+        size: 4,
+        compressedSize: null,
+        compressionMethod: null,
+        crc32: null,
+        lastModified: stats.mtime,
+        mode: stats.mode,
+      });
+    });
+
+    it('throws a FileNotFoundInPackageError if the file does not exist', async () => {
+      const myDirectory = createDirectory();
+
+      await myDirectory.getFiles();
+
+      await expect(myDirectory.getFileInfo('whatever')).rejects.toThrow(
+        FileNotFoundInPackageError,
+      );
+    });
+
+    it('throws a FileNotFoundInPackageError if the file is not scanned', async () => {
+      const myDirectory = createDirectory();
+      await myDirectory.getFiles();
+      myDirectory.setScanFileCallback(
+        (filePath) => filePath !== 'dir1/file1.txt',
+      );
+
+      await expect(myDirectory.getFileInfo('dir1/file1.txt')).rejects.toThrow(
+        FileNotFoundInPackageError,
+      );
+    });
+  });
+
   describe('getChunkAsBuffer()', () => {
     it('should get a buffer', async () => {
       const myDirectory = createDirectory();
@@ -6,59 +6,249 @@ import FirstChunkStream from 'first-chunk-stream';
 import stripBomStream from 'strip-bom-stream';
 import { oneLine } from 'common-tags';
 
-import { IOBase, IOBaseConstructorParams } from './base';
-import { walkPromise } from './utils';
+import { FileInfo, IOBase, IOBaseConstructorParams } from './base';
+import { DEFAULT_WALK_CONCURRENCY } from './const';
+import {
+  DecodeBufferOptions,
+  SkippedSymlink,
+  SymlinkPolicy,
+  getPathTraversalReason,
+  checkRange,
+  compareFilePaths,
+  readFileRange,
+  stat,
+  walkPromise,
+} from './utils';
+import { FileNotFoundInPackageError, FileTooLargeError } from '../errors';
 
 type Files = { [filename: string]: { size: number } };
 
-type DirectoryConstructorParams = IOBaseConstructorParams;
+export type DirectoryConstructorParams = IOBaseConstructorParams & {
+  // The maximum number of file system calls made at the same time when
+  // walking the directory.
+  walkConcurrency?: number;
+  // The `.gitignore`-style files to apply, see `WalkPromiseOptions`. These
+  // rules are applied in addition to the `shouldScanFile` callback.
+  ignoreFileNames?: string[];
+  ignoreFiles?: string[];
+  // The limits of the walk and what to do when one of them is exceeded, see
+  // `WalkPromiseOptions`. The index is built once for all the `shouldScanFile`
+  // callbacks, which is why these limits count all the files that are not
+  // excluded by the ignore files, including the ones that are not scanned.
+  // Use ignore files to keep a part of the directory out of the walk.
+  maxDepth?: number;
+  maxFiles?: number;
+  maxTotalSize?: number;
+  truncate?: boolean;
+  // What to do with symlinks, see `SymlinkPolicy`.
+  symlinks?: SymlinkPolicy;
+};
 
 export class Directory extends IOBase {
   files: Files;
 
-  constructor({ filePath, stderr }: DirectoryConstructorParams) {
+  ignoreFileNames: string[];
+
+  ignoreFiles: string[];
+
+  maxDepth: number;
+
+  maxFiles: number;
+
+  maxTotalSize: number;
+
+  // The symlinks that have not been followed when walking the directory.
+  skippedSymlinks: SkippedSymlink[];
+
+  symlinks: SymlinkPolicy;
+
+  truncate: boolean;
+
+  // Whether the walk has stopped early because a limit has been exceeded.
+  truncated: boolean;
+
+  walkConcurrency: number;
+
+  constructor({
+    filePath,
+    ignoreFileNames = [],
+    ignoreFiles = [],
+    maxDepth = Infinity,
+    maxFiles = Infinity,
+    maxTotalSize = Infinity,
+    stderr,
+    symlinks = 'skip',
+    truncate = false,
+    walkConcurrency = DEFAULT_WALK_CONCURRENCY,
+  }: DirectoryConstructorParams) {
     super({ filePath, stderr });
 
     this.files = {};
+    this.ignoreFileNames = ignoreFileNames;
+    this.ignoreFiles = ignoreFiles;
+    this.maxDepth = maxDepth;
+    this.maxFiles = maxFiles;
+    this.maxTotalSize = maxTotalSize;
+    this.skippedSymlinks = [];
+    this.symlinks = symlinks;
+    this.truncate = truncate;
+    this.truncated = false;
+    this.walkConcurrency = walkConcurrency;
   }
 
   async getFiles(_walkPromise = walkPromise): Promise<Files> {
     // If we have already processed this directory and have data on this
-    // instance return that.
+    // instance use that. `files` is the full index of the directory, the
+    // current `shouldScanFile` callback is applied on every call.
     if (Object.keys(this.files).length) {
       this.stderr.debug(oneLine`Files already exist for directory
         "${this.path}" returning cached data`);
-      return this.files;
+    } else {
+      this.files = await _walkPromise(this.path, {
+        stderr: this.stderr,
+        concurrency: this.walkConcurrency,
+        ignoreFileNames: this.ignoreFileNames,
+        ignoreFiles: this.ignoreFiles,
+        maxDepth: this.maxDepth,
+        maxFiles: this.maxFiles,
+        maxTotalSize: this.maxTotalSize,
+        truncate: this.truncate,
+        onTruncated: () => {
+          this.truncated = true;
+        },
+        symlinks: this.symlinks,
+        onSkippedSymlink: (symlink: SkippedSymlink) => {
+          this.skippedSymlinks.push(symlink);
+        },
+      });
     }
 
-    const files = await _walkPromise(this.path, {
-      shouldIncludePath: (_path: string, isDirectory: boolean) => {
-        return this.shouldScanFile(_path, isDirectory);
-      },
-      stderr: this.stderr,
-    });
+    const files = this.filterFiles();
+    // `walkPromise()` returns the files sorted by path, which is the order of
+    // both the returned files and `entries` (integer-like keys aside, which
+    // objects always list first).
+    this.entries = Object.keys(files).sort(compareFilePaths);
+
+    return files;
+  }
+
+  /*
+   * Applies the `shouldScanFile` callback to the index the same way
+   * `walkPromise()` would, see `shouldScanPath()`.
+   */
+  filterFiles(): Files {
+    const scannedDirs = new Map<string, boolean>();
+    const files: Files = {};
 
-    this.files = files;
-    this.entries = Object.keys(files);
+    Object.keys(this.files).forEach((filePath) => {
+      if (this.shouldScanPath(filePath, scannedDirs)) {
+        files[filePath] = this.files[filePath];
+      }
+    });
 
     return files;
   }
 
-  async getPath(_path: string) {
-    if (!Object.prototype.hasOwnProperty.call(this.files, _path)) {
-      throw new Error(`Path "${_path}" does not exist in this dir.`);
+  /*
+   * Tells whether a file of the index is scanned, i.e. whether the
+   * `shouldScanFile` callback accepts the file and all its parent
+   * directories, including the top-most one. `scannedDirs` caches the result
+   * for the directories across calls.
+   */
+  shouldScanPath(
+    filePath: string,
+    scannedDirs = new Map<string, boolean>(),
+  ): boolean {
+    // The top-most directory is '', which is also the parent of the root of
+    // an absolute path (which is rejected later by `getPath()`).
+    const getParentPath = (childPath: string) => {
+      const parentPath = path.posix.dirname(childPath);
+
+      return parentPath === '.' || parentPath === childPath ? '' : parentPath;
+    };
+
+    const shouldScanDir = (dirPath: string): boolean => {
+      const cached = scannedDirs.get(dirPath);
+      if (cached !== undefined) {
+        return cached;
+      }
+
+      let shouldScan;
+      if (dirPath === '') {
+        shouldScan = this.shouldScanFile(dirPath, true);
+      } else {
+        shouldScan =
+          shouldScanDir(getParentPath(dirPath)) &&
+          this.shouldScanFile(dirPath, true);
+      }
+
+      if (!shouldScan) {
+        this.stderr.debug(`Skipping cached directory: ${dirPath}`);
+      }
+      scannedDirs.set(dirPath, shouldScan);
+
+      return shouldScan;
+    };
+
+    if (!shouldScanDir(getParentPath(filePath))) {
+      return false;
+    }
+
+    if (!this.shouldScanFile(filePath, false)) {
+      this.stderr.debug(`Skipping cached file: ${filePath}`);
+      return false;
+    }
+
+    return true;
+  }
+
+  /*
+   * Throws when `_path` is not one of the scanned files of the directory.
+   */
+  checkPath(_path: string) {
+    if (
+      !Object.prototype.hasOwnProperty.call(this.files, _path) ||
+      !this.shouldScanPath(_path)
+    ) {
+      throw new FileNotFoundInPackageError(
+        `Path "${_path}" does not exist in this dir.`,
+        { path: _path },
+      );
     }
+  }
+
+  invalidate() {
+    super.invalidate();
+
+    this.skippedSymlinks = [];
+    this.truncated = false;
+  }
 
-    if (this.files[_path].size > this.maxSizeBytes) {
-      throw new Error(`File "${_path}" is too large. Aborting`);
+  async getPath(_path: string) {
+    this.checkPath(_path);
+
+    const { size } = this.files[_path];
+    if (size > this.maxSizeBytes) {
+      throw new FileTooLargeError(`File "${_path}" is too large. Aborting`, {
+        path: _path,
+        size,
+        limit: this.maxSizeBytes,
+      });
     }
 
     const absoluteDirPath = path.resolve(this.path);
     const filePath = path.resolve(path.join(absoluteDirPath, _path));
 
     // This is belt and braces. Should never happen that a file was in
-    // the files object and yet doesn't meet these requirements.
-    if (!filePath.startsWith(absoluteDirPath) || _path.startsWith('/')) {
+    // the files object and yet doesn't meet these requirements. Unlike
+    // archive entry names, file names only follow the rules of the current
+    // platform, e.g. `c:notes.txt` is a valid file name on Linux.
+    const escapesDir =
+      process.platform === 'win32'
+        ? getPathTraversalReason(_path) !== null
+        : _path.startsWith('/') || _path.split('/').includes('..');
+
+    if (!filePath.startsWith(absoluteDirPath) || escapesDir) {
       throw new Error(`Path argument must be relative to ${this.path}`);
     }
 
@@ -80,24 +270,37 @@ export class Directory extends IOBase {
     return !encoding ? readStream : readStream.pipe(stripBomStream());
   }
 
-  async getFileAsString(_path: string): Promise<string> {
-    const readStream = await this.getFileAsStream(_path);
+  async getFileAsRawStream(_path: string): Promise<Readable> {
+    const filePath = await this.getPath(_path);
 
-    return new Promise((resolve, reject) => {
-      let content = '';
-      readStream.on('readable', () => {
-        let chunk: string;
-        while ((chunk = readStream.read()) !== null) {
-          content += chunk.toString();
-        }
-      });
+    return createReadStream(filePath, { autoClose: true, flags: 'r' });
+  }
 
-      readStream.on('end', () => {
-        resolve(content);
-      });
+  async getFileAsString(
+    _path: string,
+    options?: DecodeBufferOptions,
+  ): Promise<string> {
+    const { content } = await this.getFileAsText(_path, options);
 
-      readStream.on('error', reject);
-    });
+    return content;
+  }
+
+  async getFileInfo(_path: string): Promise<FileInfo> {
+    this.checkPath(_path);
+
+    // Files can be symlinks when they are followed, in which case we want the
+    // metadata of their target.
+    const stats = await stat(path.join(this.path, _path));
+
+    return {
+      path: _path,
+      size: stats.size,
+      compressedSize: null,
+      compressionMethod: null,
+      crc32: null,
+      lastModified: stats.mtime,
+      mode: stats.mode,
+    };
   }
 
   async getChunkAsBuffer(_path: string, chunkLength: number): Promise<Buffer> {
@@ -121,4 +324,15 @@ export class Directory extends IOBase {
       );
     });
   }
+
+  async getRangeAsBuffer(
+    _path: string,
+    offset: number,
+    length: number,
+  ): Promise<Buffer> {
+    checkRange(offset, length);
+    const filePath = await this.getPath(_path);
+
+    return readFileRange(filePath, offset, length);
+  }
 }
@@ -0,0 +1,884 @@
+import { createHash } from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import yauzl, { ZipFile } from 'yauzl';
+
+import { PackageFile } from './base';
+import { Directory } from './directory';
+import { InMemoryXpi } from './in-memory-xpi';
+import {
+  DuplicateZipEntryError,
+  EncryptedZipEntryError,
+  EntryNameCollisionError,
+  FileTooLargeError,
+  InvalidZipFileError,
+  UnsafeZipEntryError,
+  ZipBombError,
+} from '../errors';
+import {
+  createFakeStderr,
+  createZipBuffer,
+  readStringFromStream,
+} from '../test-helpers';
+
+describe(__filename, () => {
+  const readFixture = (name: string) => {
+    return fs.readFileSync(`src/tests/fixtures/io/${name}`);
+  };
+
+  const createInMemoryXpi = ({
+    buffer = readFixture('simple-archive.zip') as Buffer | Uint8Array,
+    stderr = createFakeStderr(),
+    zipLib = yauzl,
+  } = {}) => {
+    return new InMemoryXpi({ buffer, stderr, zipLib });
+  };
+
+  describe('InMemoryXpi()', () => {
+    it('uses a placeholder path by default', () => {
+      const xpi = createInMemoryXpi();
+
+      expect(xpi.path).toEqual('(in-memory)');
+    });
+
+    it('accepts a path to identify the package', () => {
+      const xpi = new InMemoryXpi({
+        buffer: readFixture('simple-archive.zip'),
+        filePath: 'some.xpi',
+        stderr: createFakeStderr(),
+      });
+
+      expect(xpi.path).toEqual('some.xpi');
+    });
+
+    it('accepts a Uint8Array', async () => {
+      const buffer = readFixture('simple-archive.zip');
+      const xpi = createInMemoryXpi({ buffer: new Uint8Array(buffer) });
+
+      expect(Buffer.isBuffer(xpi.buffer)).toEqual(true);
+      await expect(xpi.getFiles()).resolves.toHaveProperty('file');
+    });
+  });
+
+  describe('open()', () => {
+    it('opens the zipfile from the buffer', async () => {
+      const fromBuffer = jest.fn();
+      fromBuffer.mockImplementation((buffer, options, callback) => {
+        yauzl.fromBuffer(buffer, options, callback);
+      });
+      const xpi = createInMemoryXpi({ zipLib: { ...yauzl, fromBuffer } });
+
+      const zipfile = await xpi.open();
+
+      expect(zipfile).toBeInstanceOf(ZipFile);
+      expect(fromBuffer).toHaveBeenCalledWith(
+        xpi.buffer,
+        expect.objectContaining({ strictFileNames: true, decodeStrings: true }),
+        expect.any(Function),
+      );
+    });
+
+    it('rejects when the buffer is not a ZIP file', async () => {
+      const xpi = createInMemoryXpi({ buffer: Buffer.from('not a zip') });
+
+      await expect(xpi.open()).rejects.toThrow(
+        'End of central directory record signature not found',
+      );
+    });
+  });
+
+  describe('getFiles()', () => {
+    it('returns the files in the buffer', async () => {
+      const xpi = createInMemoryXpi();
+
+      const files = await xpi.getFiles();
+
+      expect(Object.keys(files)).toEqual(['file']);
+      expect(files.file.uncompressedSize).toEqual(12);
+    });
+
+    it('throws a DuplicateZipEntryError on duplicate entries', async () => {
+      const xpi = createInMemoryXpi({
+        buffer: readFixture('archive-with-duplicate-files.zip'),
+      });
+
+      await expect(xpi.getFiles()).rejects.toThrow(DuplicateZipEntryError);
+    });
+
+    it('keeps rejecting once a budget has been exceeded', async () => {
+      const stderr = createFakeStderr();
+      const xpi = new InMemoryXpi({
+        buffer: createZipBuffer(
+          ['a.js', 'b.js', 'c.js', 'd.js', 'e.js'].map((name) => ({
+            name,
+            data: Buffer.from(name),
+          })),
+        ),
+        maxEntries: 2,
+        stderr,
+      });
+
+      await expect(xpi.getFiles()).rejects.toThrow(ZipBombError);
+      // The entries after the one exceeding the budget are not checked.
+      expect(stderr.info).toHaveBeenCalledTimes(1);
+      expect(xpi.processed).toEqual(false);
+      await expect(xpi.getFiles()).rejects.toThrow(
+        'Package contains more than 2 entries',
+      );
+    });
+
+    it('rejects all the concurrent calls', async () => {
+      const xpi = new InMemoryXpi({
+        buffer: createZipBuffer([
+          { name: 'a.js', data: Buffer.from('a') },
+          { name: 'b.js', data: Buffer.from('b') },
+        ]),
+        maxEntries: 1,
+        stderr: createFakeStderr(),
+      });
+
+      const results = await Promise.allSettled([
+        xpi.getFiles(),
+        xpi.getFiles(),
+      ]);
+
+      expect(results).toEqual([
+        { status: 'rejected', reason: expect.any(ZipBombError) },
+        { status: 'rejected', reason: expect.any(ZipBombError) },
+      ]);
+    });
+
+    it('reads the entries once for concurrent calls', async () => {
+      const xpi = new InMemoryXpi({
+        buffer: createZipBuffer([
+          { name: 'a.js', data: Buffer.from('a') },
+          { name: 'b.js', data: Buffer.from('b') },
+        ]),
+        maxEntries: 2,
+        stderr: createFakeStderr(),
+      });
+
+      const [files, otherFiles] = await Promise.all([
+        xpi.getFiles(),
+        xpi.getFiles(),
+      ]);
+
+      expect(Object.keys(files)).toEqual(['a.js', 'b.js']);
+      expect(otherFiles).toEqual(files);
+      expect(xpi.entryCount).toEqual(2);
+    });
+
+    it('keeps rejecting once an unsafe path has been found', async () => {
+      const xpi = new InMemoryXpi({
+        buffer: createZipBuffer([
+          { name: 'a.js', data: Buffer.from('a') },
+          { name: 'b.', data: Buffer.from('b') },
+        ]),
+        stderr: createFakeStderr(),
+        unsafePaths: 'reject',
+      });
+
+      await expect(xpi.getFiles()).rejects.toThrow(UnsafeZipEntryError);
+      await expect(xpi.getFiles()).rejects.toThrow(UnsafeZipEntryError);
+    });
+
+    it('keeps rejecting once colliding names have been found', async () => {
+      const xpi = new InMemoryXpi({
+        buffer: createZipBuffer([
+          { name: 'a.js', data: Buffer.from('a') },
+          { name: 'A.js', data: Buffer.from('A') },
+        ]),
+        collisions: 'reject',
+        stderr: createFakeStderr(),
+      });
+
+      await expect(xpi.getFiles()).rejects.toThrow(EntryNameCollisionError);
+      await expect(xpi.getFiles()).rejects.toThrow(EntryNameCollisionError);
+    });
+
+    it('throws an InvalidZipFileError on invalid file names', async () => {
+      const xpi = createInMemoryXpi({
+        buffer: readFixture('archive-with-invalid-chars-in-filenames.zip'),
+      });
+
+      await expect(xpi.getFiles()).rejects.toThrow(InvalidZipFileError);
+    });
+  });
+
+  describe('invalidate()', () => {
+    it('reads the archive again on the next call', async () => {
+      const xpi = createInMemoryXpi({
+        buffer: createZipBuffer([{ name: 'old.txt', data: Buffer.from('') }]),
+      });
+      await xpi.getFiles();
+
+      xpi.buffer = createZipBuffer([
+        { name: 'new.txt', data: Buffer.from('') },
+      ]);
+      xpi.invalidate();
+
+      expect(xpi.processed).toEqual(false);
+      expect(xpi.entryCount).toEqual(0);
+      await expect(xpi.getFiles()).resolves.toEqual({
+        'new.txt': expect.any(Object),
+      });
+      expect(xpi.entries).toEqual(['new.txt']);
+    });
+  });
+
+  describe('extractTo()', () => {
+    let tmpDir: string;
+
+    beforeEach(() => {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'extract-test-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it('writes the exact bytes of the files', async () => {
+      const xpi = createInMemoryXpi({
+        buffer: createZipBuffer([
+          { name: 'manifest.json', data: Buffer.from('\ufeff{}') },
+          { name: 'lib/' },
+          { name: 'lib/main.js', data: Buffer.from('main()') },
+        ]),
+      });
+
+      const directory = await xpi.extractTo(tmpDir);
+
+      expect(directory).toBeInstanceOf(Directory);
+      expect(directory.path).toEqual(tmpDir);
+      expect(Object.keys(await directory.getFiles())).toEqual([
+        'lib/main.js',
+        'manifest.json',
+      ]);
+      expect(fs.readFileSync(path.join(tmpDir, 'manifest.json'))).toEqual(
+        Buffer.from('\ufeff{}'),
+      );
+      expect(fs.readFileSync(path.join(tmpDir, 'lib/main.js'), 'utf8')).toEqual(
+        'main()',
+      );
+    });
+
+    it('normalizes the permissions by default', async () => {
+      const xpi = createInMemoryXpi({
+        buffer: createZipBuffer([
+          { name: 'run.sh', data: Buffer.from('#!/bin/sh'), mode: 0o100777 },
+        ]),
+      });
+
+      await xpi.extractTo(tmpDir);
+
+      // eslint-disable-next-line no-bitwise
+      expect(fs.statSync(path.join(tmpDir, 'run.sh')).mode & 0o777).toEqual(
+        0o644,
+      );
+    });
+
+    it('can preserve the permissions', async () => {
+      const xpi = createInMemoryXpi({
+        buffer: createZipBuffer([
+          { name: 'run.sh', data: Buffer.from('#!/bin/sh'), mode: 0o104750 },
+          { name: 'other.txt', data: Buffer.from('other') },
+        ]),
+      });
+
+      await xpi.extractTo(tmpDir, { permissions: 'preserve' });
+
+      // The setuid bit is dropped.
+      // eslint-disable-next-line no-bitwise
+      expect(fs.statSync(path.join(tmpDir, 'run.sh')).mode & 0o7777).toEqual(
+        0o750,
+      );
+      // Entries without a unix mode are normalized.
+      expect(
+        // eslint-disable-next-line no-bitwise
+        fs.statSync(path.join(tmpDir, 'other.txt')).mode & 0o777,
+      ).toEqual(0o644);
+    });
+
+    it('rejects files with an unsafe path', async () => {
+      const xpi = createInMemoryXpi({
+        buffer: createZipBuffer([{ name: 'file.', data: Buffer.from('') }]),
+      });
+
+      await expect(xpi.extractTo(tmpDir)).rejects.toThrow(UnsafeZipEntryError);
+      expect(fs.readdirSync(tmpDir)).toEqual([]);
+    });
+
+    it('does not overwrite existing files', async () => {
+      fs.writeFileSync(path.join(tmpDir, 'file.txt'), 'existing');
+      const xpi = createInMemoryXpi({
+        buffer: createZipBuffer([{ name: 'file.txt', data: Buffer.from('') }]),
+      });
+
+      await expect(xpi.extractTo(tmpDir)).rejects.toThrow('EEXIST');
+      expect(fs.readFileSync(path.join(tmpDir, 'file.txt'), 'utf8')).toEqual(
+        'existing',
+      );
+    });
+
+    it('enforces the size limits', async () => {
+      const xpi = createInMemoryXpi({
+        buffer: createZipBuffer([
+          { name: 'big.txt', data: Buffer.from('too big') },
+        ]),
+      });
+      xpi.maxSizeBytes = 3;
+
+      await expect(xpi.extractTo(tmpDir)).rejects.toThrow(FileTooLargeError);
+    });
+
+    it('enforces the budgets of the package', async () => {
+      const xpi = new InMemoryXpi({
+        buffer: createZipBuffer([
+          { name: 'a.txt', data: Buffer.from('a') },
+          { name: 'b.txt', data: Buffer.from('b') },
+        ]),
+        maxEntries: 1,
+        stderr: createFakeStderr(),
+      });
+
+      await expect(xpi.extractTo(tmpDir)).rejects.toThrow(ZipBombError);
+      expect(fs.readdirSync(tmpDir)).toEqual([]);
+    });
+
+    it('keeps rejecting after getFiles() has been rejected', async () => {
+      const xpi = new InMemoryXpi({
+        buffer: createZipBuffer([
+          { name: 'a.txt', data: Buffer.from('a') },
+          { name: 'b.txt', data: Buffer.from('b') },
+        ]),
+        maxEntries: 1,
+        stderr: createFakeStderr(),
+      });
+
+      await expect(xpi.getFiles()).rejects.toThrow(ZipBombError);
+      await expect(xpi.extractTo(tmpDir)).rejects.toThrow(ZipBombError);
+      expect(fs.readdirSync(tmpDir)).toEqual([]);
+    });
+
+    it('only extracts the scanned files', async () => {
+      const xpi = createInMemoryXpi({
+        buffer: createZipBuffer([
+          { name: 'a.txt', data: Buffer.from('a') },
+          { name: 'b.txt', data: Buffer.from('b') },
+        ]),
+      });
+      xpi.setScanFileCallback((filePath) => filePath !== 'b.txt');
+
+      await xpi.extractTo(tmpDir);
+
+      expect(fs.readdirSync(tmpDir)).toEqual(['a.txt']);
+    });
+  });
+
+  describe('file order', () => {
+    const buffer = createZipBuffer([
+      { name: 'manifest.json', data: Buffer.from('{}') },
+      { name: 'lib/other.js', data: Buffer.from('other()') },
+      { name: 'README', data: Buffer.from('readme') },
+      { name: 'lib/main.js', data: Buffer.from('main()') },
+    ]);
+
+    it('keeps the central directory order by default', async () => {
+      const xpi = createInMemoryXpi({ buffer });
+
+      const files = await xpi.getFiles();
+
+      const expectedPaths = [
+        'manifest.json',
+        'lib/other.js',
+        'README',
+        'lib/main.js',
+      ];
+      expect(Object.keys(files)).toEqual(expectedPaths);
+      expect(xpi.entries).toEqual(expectedPaths);
+    });
+
+    it('sorts the files when fileOrder is "sorted"', async () => {
+      const xpi = new InMemoryXpi({
+        buffer,
+        fileOrder: 'sorted',
+        stderr: createFakeStderr(),
+      });
+
+      const files = await xpi.getFiles();
+
+      const expectedPaths = [
+        'README',
+        'lib/main.js',
+        'lib/other.js',
+        'manifest.json',
+      ];
+      expect(Object.keys(files)).toEqual(expectedPaths);
+      expect(xpi.entries).toEqual(expectedPaths);
+      // The cached files are returned in the same order.
+      expect(Object.keys(await xpi.getFiles())).toEqual(expectedPaths);
+    });
+
+    it('yields sorted files when fileOrder is "sorted"', async () => {
+      const xpi = new InMemoryXpi({
+        buffer,
+        fileOrder: 'sorted',
+        stderr: createFakeStderr(),
+      });
+
+      const paths = [];
+      for await (const file of xpi.iterateFiles()) {
+        paths.push(file.info.path);
+      }
+
+      expect(paths).toEqual([
+        'README',
+        'lib/main.js',
+        'lib/other.js',
+        'manifest.json',
+      ]);
+    });
+  });
+
+  describe('file content', () => {
+    it('returns a file as a string', async () => {
+      const xpi = createInMemoryXpi();
+      await xpi.getFiles();
+
+      await expect(xpi.getFileAsString('file')).resolves.toEqual(
+        'some content',
+      );
+    });
+
+    it('returns a file as a stream', async () => {
+      const xpi = createInMemoryXpi();
+      await xpi.getFiles();
+
+      const stream = await xpi.getFileAsStream('file');
+
+      await expect(readStringFromStream(stream, undefined)).resolves.toEqual(
+        'some content',
+      );
+    });
+
+    it('returns the first bytes of a file', async () => {
+      const xpi = createInMemoryXpi();
+      await xpi.getFiles();
+
+      const buffer = await xpi.getChunkAsBuffer('file', 4);
+
+      expect(buffer.toString()).toEqual('some');
+    });
+
+    it('rejects when the path does not exist', async () => {
+      const xpi = createInMemoryXpi();
+      await xpi.getFiles();
+
+      await expect(xpi.getFileAsString('whatever')).rejects.toThrow(
+        'Path "whatever" does not exist in this XPI',
+      );
+    });
+
+    it('rejects when the file is encrypted', async () => {
+      // The compression method 99 is used by AES-encrypted entries.
+      const xpi = createInMemoryXpi({
+        buffer: createZipBuffer([
+          { name: 'manifest.json', data: Buffer.from('{}') },
+          {
+            name: 'secret.js',
+            data: Buffer.from('encrypted'),
+            compressionMethod: 99,
+            flags: 0x0001,
+          },
+        ]),
+      });
+
+      await xpi.getFiles();
+
+      expect(xpi.encryptedEntries).toEqual(['secret.js']);
+      await expect(xpi.getFileAsString('secret.js')).rejects.toThrow(
+        EncryptedZipEntryError,
+      );
+      await expect(xpi.getFileAsString('manifest.json')).resolves.toEqual('{}');
+    });
+  });
+
+  describe('raw content', () => {
+    const bomContent = Buffer.from('\ufeff{}');
+    // A binary file that happens to start with the bytes of a UTF-8 BOM.
+    const binaryContent = Buffer.from([0xef, 0xbb, 0xbf, 0x00, 0xff]);
+
+    const createXpiWithBOMs = () => {
+      return createInMemoryXpi({
+        buffer: createZipBuffer([
+          { name: 'manifest.json', data: bomContent },
+          { name: 'image.bin', data: binaryContent },
+          { name: 'file.txt', data: Buffer.from('some content') },
+        ]),
+      });
+    };
+
+    it('returns the exact bytes of a file', async () => {
+      const xpi = createXpiWithBOMs();
+      await xpi.getFiles();
+
+      await expect(xpi.getFile('manifest.json', 'buffer')).resolves.toEqual(
+        bomContent,
+      );
+      await expect(xpi.getFileAsBuffer('image.bin')).resolves.toEqual(
+        binaryContent,
+      );
+    });
+
+    it('decodes a UTF-16 file according to its BOM', async () => {
+      const xpi = createInMemoryXpi({
+        buffer: createZipBuffer([
+          {
+            name: 'file.txt',
+            data: Buffer.concat([
+              Buffer.from([0xff, 0xfe]),
+              Buffer.from('héllo', 'utf16le'),
+            ]),
+          },
+        ]),
+      });
+      await xpi.getFiles();
+
+      await expect(xpi.getFileAsString('file.txt')).resolves.toEqual('héllo');
+      await expect(xpi.getFileAsText('file.txt')).resolves.toEqual({
+        content: 'héllo',
+        encoding: 'utf-16le',
+      });
+    });
+
+    it('returns a range of a file', async () => {
+      const xpi = createXpiWithBOMs();
+      await xpi.getFiles();
+
+      await expect(xpi.getRangeAsBuffer('image.bin', 3, 10)).resolves.toEqual(
+        binaryContent.subarray(3),
+      );
+    });
+
+    it('tells whether a file starts with a BOM', async () => {
+      const xpi = createXpiWithBOMs();
+      await xpi.getFiles();
+
+      await expect(xpi.hasBOM('manifest.json')).resolves.toEqual(true);
+      await expect(xpi.hasBOM('file.txt')).resolves.toEqual(false);
+    });
+  });
+
+  describe('getPackageHashes()', () => {
+    it('returns the hashes of the raw content of the files', async () => {
+      const content = Buffer.from('\ufeff{}');
+      const xpi = createInMemoryXpi({
+        buffer: createZipBuffer([{ name: 'manifest.json', data: content }]),
+      });
+
+      await expect(xpi.getPackageHashes()).resolves.toEqual({
+        'manifest.json': createHash('sha256').update(content).digest('hex'),
+      });
+    });
+  });
+
+  describe('getArchiveReport()', () => {
+    it('returns a report for the buffer', async () => {
+      const xpi = createInMemoryXpi({
+        buffer: Buffer.concat([
+          readFixture('simple-archive.zip'),
+          Buffer.from('trailing'),
+        ]),
+      });
+
+      const report = await xpi.getArchiveReport();
+
+      expect(report.trailingBytes).toEqual(8);
+    });
+  });
+
+  describe('deep scan', () => {
+    const buffer = createZipBuffer([
+      { name: 'manifest.json', data: Buffer.from('{}') },
+      { name: 'hidden.js', data: Buffer.from('evil()'), hidden: true },
+    ]);
+
+    it('does not scan the archive sequentially by default', async () => {
+      const xpi = createInMemoryXpi({ buffer });
+
+      const files = await xpi.getFiles();
+
+      expect(Object.keys(files)).toEqual(['manifest.json']);
+      expect(xpi.deepScanResult).toEqual(null);
+    });
+
+    it('reports hidden entries when enabled', async () => {
+      const stderr = createFakeStderr();
+      const xpi = new InMemoryXpi({ buffer, deepScan: true, stderr });
+
+      const files = await xpi.getFiles();
+
+      expect(Object.keys(files)).toEqual(['manifest.json']);
+      expect(xpi.deepScanResult).toEqual({
+        hiddenEntries: [{ path: 'hidden.js', offset: 45 }],
+        overlappingEntries: [],
+      });
+      expect(stderr.info).toHaveBeenCalledWith(
+        'found entry "hidden.js" at offset 45 outside of the central directory',
+      );
+    });
+
+    it('keeps rejecting when the deep scan fails', async () => {
+      const xpi = new InMemoryXpi({
+        buffer,
+        deepScan: true,
+        stderr: createFakeStderr(),
+      });
+      const error = new InvalidZipFileError('Invalid central directory');
+      xpi.getDeepScanResult = jest.fn().mockRejectedValue(error);
+
+      await expect(xpi.getFiles()).rejects.toThrow(error);
+
+      expect(xpi.processed).toEqual(false);
+      await expect(xpi.getFiles()).rejects.toThrow(error);
+      expect(xpi.getDeepScanResult).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('iterateFiles()', () => {
+    const buffer = createZipBuffer([
+      { name: 'manifest.json', data: Buffer.from('\ufeff{}') },
+      { name: 'lib/' },
+      { name: 'lib/main.js', data: Buffer.from('main()') },
+      { name: 'lib/other.js', data: Buffer.from('other()') },
+    ]);
+
+    const collectPaths = async (iterator: AsyncGenerator<PackageFile>) => {
+      const paths = [];
+      for await (const file of iterator) {
+        paths.push(file.info.path);
+      }
+      return paths;
+    };
+
+    it('yields the files without reading the whole index', async () => {
+      const xpi = createInMemoryXpi({ buffer });
+
+      const paths = await collectPaths(xpi.iterateFiles());
+
+      expect(paths).toEqual(['manifest.json', 'lib/main.js', 'lib/other.js']);
+      expect(xpi.files).toEqual({});
+    });
+
+    it('respects shouldScanFile', async () => {
+      const xpi = createInMemoryXpi({ buffer });
+      xpi.setScanFileCallback((filePath) => filePath !== 'lib/main.js');
+
+      const paths = await collectPaths(xpi.iterateFiles());
+
+      expect(paths).toEqual(['manifest.json', 'lib/other.js']);
+    });
+
+    it('only yields the files matching the filter', async () => {
+      const xpi = createInMemoryXpi({ buffer });
+
+      const paths = await collectPaths(
+        xpi.iterateFiles({ filter: (info) => info.path.endsWith('.js') }),
+      );
+
+      expect(paths).toEqual(['lib/main.js', 'lib/other.js']);
+    });
+
+    it('reads the content of the files lazily', async () => {
+      const xpi = createInMemoryXpi({ buffer });
+      const contents: { [path: string]: unknown } = {};
+
+      for await (const file of xpi.iterateFiles()) {
+        if (file.info.path === 'manifest.json') {
+          contents.buffer = await file.buffer();
+          contents.text = await file.text();
+          contents.stream = await readStringFromStream(
+            await file.stream(),
+            undefined,
+          );
+        }
+      }
+
+      expect(contents).toEqual({
+        buffer: Buffer.from('\ufeff{}'),
+        text: '{}',
+        stream: '{}',
+      });
+    });
+
+    it('closes the zipfile when exiting early', async () => {
+      const xpi = createInMemoryXpi({ buffer });
+      const openZipFile = xpi.openZipFile.bind(xpi);
+      let zipfile: ZipFile | undefined;
+      xpi.openZipFile = async (options) => {
+        zipfile = await openZipFile(options);
+        return zipfile;
+      };
+
+      const paths = [];
+      for await (const file of xpi.iterateFiles()) {
+        paths.push(file.info.path);
+        if (file.info.path === 'manifest.json') {
+          break;
+        }
+      }
+
+      expect(paths).toEqual(['manifest.json']);
+      expect(zipfile?.isOpen).toEqual(false);
+    });
+
+    it('rejects when reading an encrypted file', async () => {
+      const xpi = createInMemoryXpi({
+        buffer: createZipBuffer([
+          {
+            name: 'secret.js',
+            data: Buffer.from('encrypted'),
+            compressionMethod: 99,
+            flags: 0x0001,
+          },
+        ]),
+      });
+
+      expect.assertions(1);
+
+      for await (const file of xpi.iterateFiles()) {
+        await expect(file.text()).rejects.toThrow(EncryptedZipEntryError);
+      }
+    });
+
+    it('reads the files after the iteration has ended', async () => {
+      const xpi = createInMemoryXpi({ buffer });
+      const files = [];
+
+      for await (const file of xpi.iterateFiles()) {
+        files.push(file);
+      }
+
+      await expect(files[0].text()).resolves.toEqual('{}');
+      await expect(files[2].buffer()).resolves.toEqual(Buffer.from('other()'));
+    });
+
+    it('rejects once a budget has been exceeded', async () => {
+      const xpi = new InMemoryXpi({
+        buffer,
+        maxEntries: 2,
+        stderr: createFakeStderr(),
+      });
+
+      await expect(collectPaths(xpi.iterateFiles())).rejects.toThrow(
+        'Package contains more than 2 entries',
+      );
+      await expect(xpi.getFiles()).rejects.toThrow(ZipBombError);
+    });
+
+    it('rejects unsafe paths', async () => {
+      const xpi = new InMemoryXpi({
+        buffer: createZipBuffer([{ name: 'b.', data: Buffer.from('b') }]),
+        stderr: createFakeStderr(),
+        unsafePaths: 'reject',
+      });
+
+      await expect(collectPaths(xpi.iterateFiles())).rejects.toThrow(
+        UnsafeZipEntryError,
+      );
+    });
+
+    it('rejects colliding names', async () => {
+      const xpi = new InMemoryXpi({
+        buffer: createZipBuffer([
+          { name: 'a.js', data: Buffer.from('a') },
+          { name: 'A.js', data: Buffer.from('A') },
+        ]),
+        collisions: 'reject',
+        fileOrder: 'sorted',
+        stderr: createFakeStderr(),
+      });
+
+      await expect(collectPaths(xpi.iterateFiles())).rejects.toThrow(
+        EntryNameCollisionError,
+      );
+    });
+
+    it('does not change the state used by getFiles()', async () => {
+      const xpi = new InMemoryXpi({
+        buffer: createZipBuffer([
+          { name: 'a.js', data: Buffer.from('a') },
+          { name: 'b.', data: Buffer.from('b') },
+        ]),
+        maxEntries: 2,
+        stderr: createFakeStderr(),
+        unsafePaths: 'report',
+      });
+
+      await collectPaths(xpi.iterateFiles());
+
+      expect(xpi.entryCount).toEqual(0);
+      expect(xpi.unsafeEntries).toEqual([]);
+
+      await expect(xpi.getFiles()).resolves.toHaveProperty(['a.js']);
+      await collectPaths(xpi.iterateFiles());
+
+      expect(xpi.entryCount).toEqual(2);
+      expect(xpi.unsafeEntries).toEqual([
+        { path: 'b.', reason: 'trailing-dot-or-space' },
+      ]);
+    });
+
+    it('can run at the same time as getFiles()', async () => {
+      const xpi = new InMemoryXpi({
+        buffer,
+        maxEntries: 4,
+        stderr: createFakeStderr(),
+      });
+
+      const [paths, files] = await Promise.all([
+        collectPaths(xpi.iterateFiles()),
+        xpi.getFiles(),
+      ]);
+
+      expect(paths).toEqual(Object.keys(files));
+    });
+
+    it('does not keep the error of a rejected iteration', async () => {
+      const xpi = new InMemoryXpi({
+        buffer,
+        maxEntries: 2,
+        stderr: createFakeStderr(),
+      });
+
+      await expect(collectPaths(xpi.iterateFiles())).rejects.toThrow(
+        ZipBombError,
+      );
+
+      expect(xpi.processingError).toEqual(null);
+      expect(xpi.entryCount).toEqual(0);
+    });
+
+    it('rejects duplicate entries', async () => {
+      const xpi = createInMemoryXpi({
+        buffer: readFixture('archive-with-duplicate-files.zip'),
+      });
+
+      await expect(collectPaths(xpi.iterateFiles())).rejects.toThrow(
+        DuplicateZipEntryError,
+      );
+    });
+
+    it('throws an InvalidZipFileError on invalid file names', async () => {
+      const xpi = createInMemoryXpi({
+        buffer: readFixture('archive-with-invalid-chars-in-filenames.zip'),
+      });
+
+      await expect(collectPaths(xpi.iterateFiles())).rejects.toThrow(
+        InvalidZipFileError,
+      );
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import yauzl, { ZipFile } from 'yauzl';
+
+import { Xpi, XpiConstructorParams } from './xpi';
+
+type InMemoryXpiConstructorParams = Omit<
+  XpiConstructorParams,
+  'autoClose' | 'filePath'
+> & {
+  buffer: Buffer | Uint8Array;
+  // This is only used to identify the package (e.g. in log messages) since
+  // there is no file on disk.
+  filePath?: string;
+};
+
+/*
+ * An XPI whose content is already in memory (e.g. data that was fetched by
+ * another component). It behaves exactly like an `Xpi` except that the ZIP
+ * data is read from a buffer instead of a file.
+ */
+export class InMemoryXpi extends Xpi {
+  buffer: Buffer;
+
+  constructor({
+    buffer,
+    filePath = '(in-memory)',
+    ...xpiParams
+  }: InMemoryXpiConstructorParams) {
+    // There is no file descriptor to keep open so we can always close the
+    // zipfile once we are done with it.
+    super({ ...xpiParams, filePath, autoClose: true });
+
+    this.buffer = Buffer.isBuffer(buffer)
+      ? buffer
+      : Buffer.from(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+  }
+
+  readArchive(): Promise<Buffer> {
+    return Promise.resolve(this.buffer);
+  }
+
+  openZipFile(options: yauzl.Options): Promise<ZipFile> {
+    return new Promise((resolve, reject) => {
+      this.zipLib.fromBuffer(this.buffer, options, (err, zipfile) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+
+        resolve(zipfile as ZipFile);
+      });
+    });
+  }
+}
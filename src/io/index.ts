@@ -1,5 +1,10 @@
+export * from './base';
 export * from './const';
 export * from './crx';
 export * from './directory';
+export * from './in-memory-xpi';
+export * from './package';
 export * from './utils';
 export * from './xpi';
+export * from './zip';
+export * from './zip-writer';
@@ -0,0 +1,111 @@
+import { Crx } from './crx';
+import { Directory } from './directory';
+import { openPackage } from './package';
+import { Xpi } from './xpi';
+import { UnsupportedPackageError, ZipBombError } from '../errors';
+import { createFakeFsStats, createFakeStderr } from '../test-helpers';
+
+describe(__filename, () => {
+  const _openPackage = (filePath: string, options = {}) => {
+    return openPackage(filePath, { stderr: createFakeStderr(), ...options });
+  };
+
+  describe('openPackage()', () => {
+    it('returns a Directory for a directory', async () => {
+      const filePath = 'src/tests/fixtures/io/';
+
+      const pkg = await _openPackage(filePath);
+
+      expect(pkg).toBeInstanceOf(Directory);
+      expect(pkg.path).toEqual(filePath);
+    });
+
+    it('returns an Xpi for a ZIP file', async () => {
+      const filePath = 'src/tests/fixtures/io/simple-archive.zip';
+
+      const pkg = await _openPackage(filePath);
+
+      expect(pkg).toBeInstanceOf(Xpi);
+      expect(pkg).not.toBeInstanceOf(Crx);
+      expect(pkg.path).toEqual(filePath);
+    });
+
+    it('returns a Crx for a CRX2 file', async () => {
+      const pkg = await _openPackage('src/tests/fixtures/io/extension.crx');
+
+      expect(pkg).toBeInstanceOf(Crx);
+    });
+
+    it('returns a Crx for a CRX3 file', async () => {
+      const pkg = await _openPackage('src/tests/fixtures/io/crx3.crx');
+
+      expect(pkg).toBeInstanceOf(Crx);
+      await expect(pkg.getFiles()).resolves.toHaveProperty(['manifest.json']);
+    });
+
+    it('passes the directory options to the Directory', async () => {
+      const pkg = await _openPackage('src/tests/fixtures/io/', {
+        directoryOptions: { maxFiles: 3, symlinks: 'follow' },
+        xpiOptions: { maxEntries: 1 },
+      });
+
+      expect(pkg).toMatchObject({ maxFiles: 3, symlinks: 'follow' });
+    });
+
+    it('passes the XPI options to the Xpi', async () => {
+      const pkg = await _openPackage(
+        'src/tests/fixtures/io/simple-archive.zip',
+        {
+          directoryOptions: { maxFiles: 3 },
+          xpiOptions: { maxEntries: 1, unsafePaths: 'reject' },
+        },
+      );
+
+      expect(pkg).toMatchObject({ maxEntries: 1, unsafePaths: 'reject' });
+    });
+
+    it('passes the XPI options to the Crx', async () => {
+      const pkg = await _openPackage('src/tests/fixtures/io/crx3.crx', {
+        xpiOptions: { maxEntries: 1 },
+      });
+
+      expect(pkg).toBeInstanceOf(Crx);
+      await expect(pkg.getFiles()).rejects.toThrow(ZipBombError);
+    });
+
+    it('throws an UnsupportedPackageError for a file that is not a ZIP', async () => {
+      const filePath = 'src/tests/fixtures/io/dir2/dir3/file.png';
+
+      const promise = _openPackage(filePath);
+
+      await expect(promise).rejects.toThrow(UnsupportedPackageError);
+      await expect(promise).rejects.toThrow(
+        `Path "${filePath}" is neither a directory, a ZIP file nor a CRX file.`,
+      );
+      await expect(promise).rejects.toMatchObject({ path: filePath });
+    });
+
+    it('throws an UnsupportedPackageError for a file shorter than a magic number', async () => {
+      await expect(
+        _openPackage('src/tests/fixtures/io/dir1/file1.txt'),
+      ).rejects.toThrow(UnsupportedPackageError);
+    });
+
+    it('throws when the path does not exist', async () => {
+      await expect(_openPackage('does-not-exist.xpi')).rejects.toThrow(
+        /is not a file or directory or does not exist/,
+      );
+    });
+
+    it('uses checkFileExists() to stat the path', async () => {
+      const _checkFileExists = jest
+        .fn()
+        .mockResolvedValue(createFakeFsStats({ isDirectory: true }));
+
+      const pkg = await _openPackage('some-dir', { _checkFileExists });
+
+      expect(_checkFileExists).toHaveBeenCalledWith('some-dir');
+      expect(pkg).toBeInstanceOf(Directory);
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import { oneLine } from 'common-tags';
+
+import { IOBase, IOBaseConstructorParams } from './base';
+import { Crx } from './crx';
+import { Directory, DirectoryConstructorParams } from './directory';
+import { checkFileExists, readFileRange } from './utils';
+import { Xpi, XpiConstructorParams } from './xpi';
+import { UnsupportedPackageError } from '../errors';
+
+// A non-empty ZIP file starts with a local file header ("PK\x03\x04") while an
+// empty ZIP file only contains an end of central directory record
+// ("PK\x05\x06").
+const ZIP_MAGIC_NUMBERS = [
+  Buffer.from([0x50, 0x4b, 0x03, 0x04]),
+  Buffer.from([0x50, 0x4b, 0x05, 0x06]),
+];
+const CRX_MAGIC_NUMBER = Buffer.from('Cr24');
+const MAGIC_NUMBER_LENGTH = 4;
+
+export type OpenPackageOptions = Omit<IOBaseConstructorParams, 'filePath'> & {
+  // The options of the `Directory` returned for a directory, e.g. the walk
+  // limits.
+  directoryOptions?: Omit<DirectoryConstructorParams, 'filePath' | 'stderr'>;
+  // The options of the `Xpi` or `Crx` returned for a file, e.g. the budgets.
+  xpiOptions?: Omit<XpiConstructorParams, 'filePath' | 'stderr'>;
+  _checkFileExists?: typeof checkFileExists;
+};
+
+/*
+ * Returns the right `IOBase` implementation for a given path: a `Directory`
+ * for a directory, a `Crx` for a file starting with the CRX magic number and
+ * an `Xpi` for any other ZIP file.
+ */
+export async function openPackage(
+  filePath: string,
+  {
+    stderr,
+    directoryOptions = {},
+    xpiOptions = {},
+    _checkFileExists = checkFileExists,
+  }: OpenPackageOptions,
+): Promise<IOBase> {
+  const stats = await _checkFileExists(filePath);
+
+  if (stats.isDirectory()) {
+    stderr.debug(`opening "${filePath}" as a directory`);
+    return new Directory({ ...directoryOptions, filePath, stderr });
+  }
+
+  const magicNumber = await readFileRange(filePath, 0, MAGIC_NUMBER_LENGTH);
+
+  if (magicNumber.equals(CRX_MAGIC_NUMBER)) {
+    stderr.debug(`opening "${filePath}" as a CRX file`);
+    return new Crx({ ...xpiOptions, filePath, stderr });
+  }
+
+  if (ZIP_MAGIC_NUMBERS.some((zipMagic) => magicNumber.equals(zipMagic))) {
+    stderr.debug(`opening "${filePath}" as a ZIP file`);
+    return new Xpi({ ...xpiOptions, filePath, stderr });
+  }
+
+  throw new UnsupportedPackageError(
+    oneLine`Path "${filePath}" is neither a directory, a ZIP file nor a CRX
+      file.`,
+    { path: filePath },
+  );
+}
@@ -1,15 +1,48 @@
-import { WalkPromiseOptions, checkFileExists, walkPromise } from './utils';
-import { createFakeFsStats, createFakeStderr } from '../test-helpers';
+import { createHash } from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+
+import { oneLine } from 'common-tags';
+
+import {
+  SkippedSymlink,
+  SymlinkPolicy,
+  WalkPromiseOptions,
+  checkFileExists,
+  checkRange,
+  compareFilePaths,
+  createGlobMatcher,
+  createSizeLimitStream,
+  decodeBuffer,
+  getPathTraversalReason,
+  getUnsafePathReason,
+  hashStream,
+  lstat,
+  readBufferFromStream,
+  readFileRange,
+  readRangeFromStream,
+  readdir,
+  sortFiles,
+  walkPromise,
+} from './utils';
+import { WalkLimitExceededError } from '../errors';
+import {
+  createFakeFsStats,
+  createFakeStderr,
+  readStringFromStream,
+} from '../test-helpers';
 
 describe(__filename, () => {
   describe('walkPromise()', () => {
     const _walkPromise = ({
-      path = 'src/tests/fixtures/io/',
-      shouldIncludePath,
+      path: dirPath = 'src/tests/fixtures/io/',
+      ...options
     }: { path?: string } & Partial<WalkPromiseOptions> = {}) => {
-      return walkPromise(path, {
-        shouldIncludePath,
+      return walkPromise(dirPath, {
         stderr: createFakeStderr(),
+        ...options,
       });
     };
 
@@ -61,6 +94,356 @@ describe(__filename, () => {
       const fileNames = Object.keys(files);
       expect(fileNames).toEqual([]);
     });
+
+    it('returns the files sorted by path', async () => {
+      const files = await _walkPromise();
+      const fileNames = Object.keys(files);
+
+      expect(fileNames.length).toBeGreaterThan(1);
+      expect(fileNames).toEqual([...fileNames].sort());
+    });
+
+    describe('symlinks', () => {
+      let tmpDir: string;
+      let rootDir: string;
+
+      beforeEach(() => {
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'walk-test-'));
+        rootDir = path.join(tmpDir, 'root');
+        fs.mkdirSync(path.join(rootDir, 'dir'), { recursive: true });
+        fs.writeFileSync(path.join(rootDir, 'file.txt'), 'file');
+        fs.writeFileSync(path.join(rootDir, 'dir', 'inner.txt'), 'inner');
+        fs.writeFileSync(path.join(tmpDir, 'outside.txt'), 'outside');
+        fs.symlinkSync('file.txt', path.join(rootDir, 'link-file'));
+        fs.symlinkSync('dir', path.join(rootDir, 'link-dir'));
+        fs.symlinkSync('..', path.join(rootDir, 'dir', 'loop'));
+        fs.symlinkSync('../outside.txt', path.join(rootDir, 'outside'));
+        fs.symlinkSync('missing', path.join(rootDir, 'broken'));
+      });
+
+      afterEach(() => {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+      });
+
+      const walkWithSymlinks = async (symlinks?: SymlinkPolicy) => {
+        const skippedSymlinks: SkippedSymlink[] = [];
+        const stderr = createFakeStderr();
+
+        const files = await walkPromise(rootDir, {
+          stderr,
+          symlinks,
+          onSkippedSymlink: (symlink) => skippedSymlinks.push(symlink),
+        });
+
+        return {
+          fileNames: Object.keys(files),
+          // The symlinks are found concurrently.
+          skippedSymlinks: skippedSymlinks.sort((a, b) =>
+            compareFilePaths(a.path, b.path),
+          ),
+          stderr,
+        };
+      };
+
+      it('skips and reports the symlinks by default', async () => {
+        const { fileNames, skippedSymlinks, stderr } = await walkWithSymlinks();
+
+        expect(fileNames).toEqual(['dir/inner.txt', 'file.txt']);
+        expect(skippedSymlinks).toEqual([
+          { path: 'broken', target: null, reason: 'not-followed' },
+          { path: 'dir/loop', target: null, reason: 'not-followed' },
+          { path: 'link-dir', target: null, reason: 'not-followed' },
+          { path: 'link-file', target: null, reason: 'not-followed' },
+          { path: 'outside', target: null, reason: 'not-followed' },
+        ]);
+        expect(stderr.info).toHaveBeenCalledWith(
+          'Skipping symlink: link-file (not-followed)',
+        );
+      });
+
+      it('only follows the symlinks inside the root', async () => {
+        const { fileNames, skippedSymlinks } =
+          await walkWithSymlinks('follow-inside-root');
+
+        expect(fileNames).toEqual([
+          'dir/inner.txt',
+          'file.txt',
+          'link-dir/inner.txt',
+          'link-file',
+        ]);
+        expect(skippedSymlinks).toEqual([
+          { path: 'broken', target: null, reason: 'broken' },
+          {
+            path: 'dir/loop',
+            target: fs.realpathSync(rootDir),
+            reason: 'cycle',
+          },
+          {
+            path: 'link-dir/loop',
+            target: fs.realpathSync(rootDir),
+            reason: 'cycle',
+          },
+          {
+            path: 'outside',
+            target: fs.realpathSync(path.join(tmpDir, 'outside.txt')),
+            reason: 'outside-root',
+          },
+        ]);
+      });
+
+      it('follows all the symlinks except cycles', async () => {
+        const { fileNames, skippedSymlinks } = await walkWithSymlinks('follow');
+
+        expect(fileNames).toEqual([
+          'dir/inner.txt',
+          'file.txt',
+          'link-dir/inner.txt',
+          'link-file',
+          'outside',
+        ]);
+        expect(
+          skippedSymlinks.map(({ path: p, reason }) => [p, reason]),
+        ).toEqual([
+          ['broken', 'broken'],
+          ['dir/loop', 'cycle'],
+          ['link-dir/loop', 'cycle'],
+        ]);
+      });
+
+      it('returns the size of the symlink targets', async () => {
+        const files = await walkPromise(rootDir, {
+          stderr: createFakeStderr(),
+          symlinks: 'follow',
+        });
+
+        expect(files['link-file'].size).toEqual(4);
+        expect(files.outside.size).toEqual(7);
+      });
+    });
+
+    describe('ignore files', () => {
+      let tmpDir: string;
+      let rootDir: string;
+
+      const writeFile = (filePath: string, content = '') => {
+        fs.mkdirSync(path.dirname(path.join(rootDir, filePath)), {
+          recursive: true,
+        });
+        fs.writeFileSync(path.join(rootDir, filePath), content);
+      };
+
+      beforeEach(() => {
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'walk-test-'));
+        rootDir = path.join(tmpDir, 'root');
+        writeFile('.gitignore', 'node_modules/\n*.log\nbuild\n');
+        writeFile('.git/HEAD');
+        writeFile('app.js');
+        writeFile('build/app.js');
+        writeFile('debug.log');
+        writeFile('node_modules/lib/index.js');
+        writeFile('src/.gitignore', 'generated.js\n!important.log\n');
+        writeFile('src/generated.js');
+        writeFile('src/important.log');
+        writeFile('src/index.js');
+        fs.writeFileSync(path.join(tmpDir, 'ignore'), 'app.js\n');
+      });
+
+      afterEach(() => {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+      });
+
+      it('applies the ignore files found in the tree', async () => {
+        const stderr = createFakeStderr();
+
+        const files = await walkPromise(rootDir, {
+          ignoreFileNames: ['.gitignore'],
+          stderr,
+        });
+
+        expect(Object.keys(files)).toEqual([
+          '.gitignore',
+          'app.js',
+          'src/.gitignore',
+          'src/important.log',
+          'src/index.js',
+        ]);
+        expect(stderr.debug).toHaveBeenCalledWith(
+          'Skipping file path: node_modules (ignored by "node_modules/" in .gitignore)',
+        );
+        expect(stderr.debug).toHaveBeenCalledWith(
+          'Skipping file path: src/generated.js (ignored by "generated.js" in src/.gitignore)',
+        );
+        expect(stderr.debug).toHaveBeenCalledWith(
+          'Skipping file path: .git (git directory)',
+        );
+      });
+
+      it('applies an explicit list of ignore files', async () => {
+        const files = await walkPromise(rootDir, {
+          ignoreFiles: [path.join(tmpDir, 'ignore')],
+          stderr: createFakeStderr(),
+        });
+
+        const fileNames = Object.keys(files);
+        expect(fileNames).not.toContain('app.js');
+        expect(fileNames).not.toContain('build/app.js');
+        expect(fileNames).not.toContain('.git/HEAD');
+        expect(fileNames).toContain('debug.log');
+        expect(fileNames).toContain('node_modules/lib/index.js');
+      });
+
+      it('composes with shouldIncludePath', async () => {
+        const files = await walkPromise(rootDir, {
+          ignoreFileNames: ['.gitignore'],
+          shouldIncludePath: (filePath) => !filePath.endsWith('.gitignore'),
+          stderr: createFakeStderr(),
+        });
+
+        expect(Object.keys(files)).toEqual([
+          'app.js',
+          'src/important.log',
+          'src/index.js',
+        ]);
+      });
+
+      it('rejects when an ignore file does not exist', async () => {
+        await expect(
+          walkPromise(rootDir, {
+            ignoreFiles: [path.join(tmpDir, 'missing')],
+            stderr: createFakeStderr(),
+          }),
+        ).rejects.toThrow('ENOENT');
+      });
+    });
+
+    describe('limits', () => {
+      it('rejects when a directory is nested too deep', async () => {
+        await expect(_walkPromise({ maxDepth: 1 })).rejects.toMatchObject({
+          name: 'WalkLimitExceededError',
+          message: 'Directory "dir2/dir3" is nested deeper than 1 levels',
+          path: 'dir2/dir3',
+          limitName: 'maxDepth',
+          limit: 1,
+        });
+        await expect(_walkPromise({ maxDepth: 2 })).resolves.toHaveProperty([
+          'dir2/dir3/file3.txt',
+        ]);
+      });
+
+      it('rejects when there are too many files', async () => {
+        await expect(_walkPromise({ maxFiles: 2 })).rejects.toThrow(
+          WalkLimitExceededError,
+        );
+        await expect(_walkPromise({ maxFiles: 2 })).rejects.toMatchObject({
+          message: 'Directory contains more than 2 files',
+          limitName: 'maxFiles',
+          limit: 2,
+        });
+      });
+
+      it('rejects when the files are too large', async () => {
+        await expect(_walkPromise({ maxTotalSize: 5 })).rejects.toMatchObject({
+          message: 'Directory exceeds the maximum total size of 5 bytes',
+          limitName: 'maxTotalSize',
+          limit: 5,
+        });
+      });
+
+      it('can stop early instead of rejecting', async () => {
+        const onTruncated = jest.fn();
+        const stderr = createFakeStderr();
+
+        const files = await walkPromise('src/tests/fixtures/io/', {
+          maxFiles: 2,
+          onTruncated,
+          stderr,
+          truncate: true,
+        });
+
+        expect(Object.keys(files)).toHaveLength(2);
+        expect(onTruncated).toHaveBeenCalledTimes(1);
+        expect(onTruncated).toHaveBeenCalledWith(
+          expect.objectContaining({ limitName: 'maxFiles' }),
+        );
+        expect(stderr.info).toHaveBeenCalledWith(
+          oneLine`Truncating the walk of src/tests/fixtures/io/: Directory
+            contains more than 2 files`,
+        );
+      });
+
+      it('does not walk the directories that are too deep', async () => {
+        const files = await walkPromise('src/tests/fixtures/io/', {
+          maxDepth: 1,
+          stderr: createFakeStderr(),
+          truncate: true,
+        });
+
+        expect(Object.keys(files)).not.toContain('dir2/dir3/file3.txt');
+      });
+    });
+
+    it('limits the number of concurrent file system calls', async () => {
+      let pending = 0;
+      let maxPending = 0;
+      const track = async <T>(promise: Promise<T>) => {
+        pending++;
+        maxPending = Math.max(maxPending, pending);
+        try {
+          return await promise;
+        } finally {
+          pending--;
+        }
+      };
+
+      const files = await walkPromise('src/tests/fixtures/io/', {
+        stderr: createFakeStderr(),
+        concurrency: 2,
+        _lstat: ((filePath: string) => track(lstat(filePath))) as typeof lstat,
+        _readdir: ((filePath: string) =>
+          track(readdir(filePath))) as typeof readdir,
+      });
+
+      expect(maxPending).toEqual(2);
+      expect(files).toEqual(await _walkPromise());
+    });
+
+    it('throws when the concurrency is not a positive integer', () => {
+      expect(() =>
+        walkPromise('src/tests/fixtures/io/', {
+          stderr: createFakeStderr(),
+          concurrency: 0,
+        }),
+      ).toThrow('Expected concurrency to be a positive integer, got 0');
+    });
+  });
+
+  describe('compareFilePaths()', () => {
+    it('compares paths by code units', () => {
+      expect(['b', 'a/b', 'B', 'a', 'é', 'e'].sort(compareFilePaths)).toEqual([
+        'B',
+        'a',
+        'a/b',
+        'b',
+        'e',
+        'é',
+      ]);
+    });
+
+    it('returns 0 for equal paths', () => {
+      expect(compareFilePaths('a/b', 'a/b')).toEqual(0);
+    });
+  });
+
+  describe('sortFiles()', () => {
+    it('returns a copy with the keys in lexicographic order', () => {
+      const files = { 'b.js': { size: 1 }, 'a/c.js': { size: 2 } };
+
+      const sortedFiles = sortFiles(files);
+
+      expect(Object.keys(sortedFiles)).toEqual(['a/c.js', 'b.js']);
+      expect(sortedFiles).toEqual(files);
+      expect(sortedFiles).not.toBe(files);
+    });
   });
 
   describe('checkFileExists()', () => {
@@ -114,4 +497,293 @@ describe(__filename, () => {
       await checkFileExists('some-directory/', { _lstat });
     });
   });
+
+  describe('createSizeLimitStream()', () => {
+    it('passes data through when the limit is not exceeded', async () => {
+      const stream = Readable.from([Buffer.from('12'), Buffer.from('34')]).pipe(
+        createSizeLimitStream(4, () => new Error('too large')),
+      );
+
+      await expect(readStringFromStream(stream, undefined)).resolves.toEqual(
+        '1234',
+      );
+    });
+
+    it('errors when the limit is exceeded', async () => {
+      const createError = jest.fn(() => new Error('too large'));
+      const stream = Readable.from([
+        Buffer.from('12'),
+        Buffer.from('345'),
+      ]).pipe(createSizeLimitStream(4, createError));
+
+      await expect(readStringFromStream(stream, undefined)).rejects.toThrow(
+        'too large',
+      );
+      expect(createError).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('getPathTraversalReason()', () => {
+    it('returns null for relative paths', () => {
+      expect(getPathTraversalReason('manifest.json')).toEqual(null);
+      expect(getPathTraversalReason('foo/bar.js')).toEqual(null);
+      expect(getPathTraversalReason('foo/..bar/baz..')).toEqual(null);
+    });
+
+    it('detects absolute paths', () => {
+      expect(getPathTraversalReason('/etc/passwd')).toEqual('absolute');
+      expect(getPathTraversalReason('\\windows\\system32')).toEqual('absolute');
+    });
+
+    it('detects drive letters', () => {
+      expect(getPathTraversalReason('C:/windows')).toEqual('drive-letter');
+      expect(getPathTraversalReason('c:foo')).toEqual('drive-letter');
+    });
+
+    it('detects parent directory segments', () => {
+      expect(getPathTraversalReason('../foo')).toEqual('parent-directory');
+      expect(getPathTraversalReason('foo/../../bar')).toEqual(
+        'parent-directory',
+      );
+      expect(getPathTraversalReason('foo\\..\\bar')).toEqual(
+        'parent-directory',
+      );
+    });
+  });
+
+  describe('getUnsafePathReason()', () => {
+    it('returns null for safe paths', () => {
+      expect(getUnsafePathReason('manifest.json')).toEqual(null);
+      expect(getUnsafePathReason('_locales/en/messages.json')).toEqual(null);
+      expect(getUnsafePathReason('.eslintrc')).toEqual(null);
+    });
+
+    it('includes the path traversal checks', () => {
+      expect(getUnsafePathReason('/foo')).toEqual('absolute');
+      expect(getUnsafePathReason('D:/foo')).toEqual('drive-letter');
+      expect(getUnsafePathReason('foo/../bar')).toEqual('parent-directory');
+    });
+
+    it('detects backslashes', () => {
+      expect(getUnsafePathReason('foo\\bar')).toEqual('backslash');
+    });
+
+    it('detects paths that are not normalized', () => {
+      expect(getUnsafePathReason('./foo')).toEqual('non-normalized');
+      expect(getUnsafePathReason('foo//bar')).toEqual('non-normalized');
+      expect(getUnsafePathReason('foo/')).toEqual('non-normalized');
+    });
+
+    it('detects trailing dots and spaces', () => {
+      expect(getUnsafePathReason('foo.js.')).toEqual('trailing-dot-or-space');
+      expect(getUnsafePathReason('foo.js ')).toEqual('trailing-dot-or-space');
+      expect(getUnsafePathReason('foo. /bar.js')).toEqual(
+        'trailing-dot-or-space',
+      );
+    });
+  });
+
+  describe('hashStream()', () => {
+    it('resolves with the hexadecimal digest of the stream', async () => {
+      const stream = Readable.from([Buffer.from('some '), Buffer.from('data')]);
+
+      await expect(hashStream(stream, createHash('sha256'))).resolves.toEqual(
+        createHash('sha256').update('some data').digest('hex'),
+      );
+    });
+
+    it('rejects when the stream emits an error', async () => {
+      const stream = new Readable({
+        read() {
+          this.destroy(new Error('read error'));
+        },
+      });
+
+      await expect(hashStream(stream, createHash('sha256'))).rejects.toThrow(
+        'read error',
+      );
+    });
+  });
+
+  describe('decodeBuffer()', () => {
+    it('decodes UTF-8 by default', () => {
+      expect(decodeBuffer(Buffer.from('héllo'))).toEqual({
+        content: 'héllo',
+        encoding: 'utf-8',
+      });
+    });
+
+    it('strips a UTF-8 BOM', () => {
+      expect(decodeBuffer(Buffer.from('\ufeffhéllo'))).toEqual({
+        content: 'héllo',
+        encoding: 'utf-8',
+      });
+    });
+
+    it('detects UTF-16LE with a BOM', () => {
+      const buffer = Buffer.concat([
+        Buffer.from([0xff, 0xfe]),
+        Buffer.from('héllo', 'utf16le'),
+      ]);
+
+      expect(decodeBuffer(buffer)).toEqual({
+        content: 'héllo',
+        encoding: 'utf-16le',
+      });
+    });
+
+    it('detects UTF-16BE with a BOM', () => {
+      const buffer = Buffer.concat([
+        Buffer.from([0xfe, 0xff]),
+        Buffer.from('héllo', 'utf16le').swap16(),
+      ]);
+
+      expect(decodeBuffer(buffer)).toEqual({
+        content: 'héllo',
+        encoding: 'utf-16be',
+      });
+    });
+
+    it('uses the fallback encoding when there is no BOM', () => {
+      const buffer = Buffer.from('héllo', 'latin1');
+
+      expect(decodeBuffer(buffer, { fallbackEncoding: 'latin1' })).toEqual({
+        content: 'héllo',
+        encoding: 'windows-1252',
+      });
+    });
+
+    it('prefers the BOM over the fallback encoding', () => {
+      const buffer = Buffer.from('\ufeffhéllo');
+
+      expect(decodeBuffer(buffer, { fallbackEncoding: 'latin1' })).toEqual({
+        content: 'héllo',
+        encoding: 'utf-8',
+      });
+    });
+
+    it('throws for an unsupported fallback encoding', () => {
+      expect(() => {
+        decodeBuffer(Buffer.from('héllo'), { fallbackEncoding: 'whatever' });
+      }).toThrow('The "whatever" encoding is not supported');
+    });
+  });
+
+  describe('checkRange()', () => {
+    it('accepts positive integers', () => {
+      expect(() => checkRange(0, 0)).not.toThrow();
+      expect(() => checkRange(12, 34)).not.toThrow();
+    });
+
+    it('throws for negative or non-integer values', () => {
+      expect(() => checkRange(-1, 2)).toThrow(
+        'Expected the offset and length of a range to be positive integers, got -1',
+      );
+      expect(() => checkRange(1, 2.5)).toThrow('got 2.5');
+      expect(() => checkRange(1, Infinity)).toThrow('got Infinity');
+    });
+  });
+
+  describe('readFileRange()', () => {
+    // The file contains: 123\n.
+    const filePath = 'src/tests/fixtures/io/dir2/dir3/file3.txt';
+
+    it('returns the bytes of a range', async () => {
+      await expect(readFileRange(filePath, 1, 2)).resolves.toEqual(
+        Buffer.from('23'),
+      );
+    });
+
+    it('returns less bytes when the file ends before the range', async () => {
+      await expect(readFileRange(filePath, 2, 10)).resolves.toEqual(
+        Buffer.from('3\n'),
+      );
+      await expect(readFileRange(filePath, 10, 2)).resolves.toEqual(
+        Buffer.alloc(0),
+      );
+    });
+  });
+
+  describe('readRangeFromStream()', () => {
+    it('returns the bytes of a range spanning several chunks', async () => {
+      const stream = Readable.from([
+        Buffer.from('012'),
+        Buffer.from('345'),
+        Buffer.from('678'),
+      ]);
+
+      await expect(readRangeFromStream(stream, 2, 5)).resolves.toEqual(
+        Buffer.from('23456'),
+      );
+    });
+
+    it('destroys the stream once the range has been read', async () => {
+      const stream = Readable.from([Buffer.from('012'), Buffer.from('345')]);
+
+      await readRangeFromStream(stream, 0, 2);
+
+      expect(stream.destroyed).toEqual(true);
+    });
+
+    it('returns less bytes when the stream ends before the range', async () => {
+      const stream = Readable.from([Buffer.from('012')]);
+
+      await expect(readRangeFromStream(stream, 1, 10)).resolves.toEqual(
+        Buffer.from('12'),
+      );
+    });
+
+    it('rejects when the stream emits an error', async () => {
+      const stream = new Readable({
+        read() {
+          this.destroy(new Error('read error'));
+        },
+      });
+
+      await expect(readRangeFromStream(stream, 0, 2)).rejects.toThrow(
+        'read error',
+      );
+    });
+  });
+
+  describe('readBufferFromStream()', () => {
+    it('resolves with the whole content of the stream', async () => {
+      const stream = Readable.from([Buffer.from('12'), Buffer.from('34')]);
+
+      await expect(readBufferFromStream(stream)).resolves.toEqual(
+        Buffer.from('1234'),
+      );
+    });
+  });
+
+  describe('createGlobMatcher()', () => {
+    it('matches any of the patterns', () => {
+      const isMatch = createGlobMatcher(['*.json', 'lib/**/*.js']);
+
+      expect(isMatch('manifest.json')).toEqual(true);
+      expect(isMatch('lib/a/b.js')).toEqual(true);
+      expect(isMatch('lib/a/b.css')).toEqual(false);
+      expect(isMatch('dir/manifest.json')).toEqual(false);
+    });
+
+    it('does not match the negated patterns', () => {
+      const isMatch = createGlobMatcher(['**/*.js', '!**/vendor/**']);
+
+      expect(isMatch('lib/a.js')).toEqual(true);
+      expect(isMatch('lib/vendor/a.js')).toEqual(false);
+    });
+
+    it('matches everything else with only negated patterns', () => {
+      const isMatch = createGlobMatcher(['!**/*.js']);
+
+      expect(isMatch('manifest.json')).toEqual(true);
+      expect(isMatch('lib/a.js')).toEqual(false);
+    });
+
+    it('matches dotfiles', () => {
+      const isMatch = createGlobMatcher(['**/*.js']);
+
+      expect(isMatch('.hidden/a.js')).toEqual(true);
+    });
+  });
 });
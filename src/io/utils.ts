@@ -1,52 +1,461 @@
+import { Hash } from 'crypto';
 import fs from 'fs';
 import path from 'path';
+import { Readable, Transform } from 'stream';
 import { promisify } from 'util';
 
+import { oneLine } from 'common-tags';
+import ignore, { Ignore } from 'ignore';
+import picomatch from 'picomatch';
 import upath from 'upath';
 
+import { DEFAULT_WALK_CONCURRENCY, UTF8_BOM } from './const';
+import { WalkLimitExceededError } from '../errors';
 import { Stderr } from '../stdio';
 
 export const lstat = promisify(fs.lstat);
 export const readFile = promisify(fs.readFile);
 export const readdir = promisify(fs.readdir);
+export const realpath = promisify(fs.realpath);
+export const stat = promisify(fs.stat);
+
+// Tells what to do with symlinks: `skip` never follows them,
+// `follow-inside-root` only follows them when their target is inside the
+// walked directory and `follow` always follows them (except when they would
+// create a cycle).
+export type SymlinkPolicy = 'skip' | 'follow-inside-root' | 'follow';
+
+export type SkippedSymlinkReason =
+  'not-followed' | 'broken' | 'outside-root' | 'cycle';
+
+export type SkippedSymlink = {
+  path: string;
+  // The resolved target, `null` when the symlink has not been resolved.
+  target: string | null;
+  reason: SkippedSymlinkReason;
+};
 
 export type WalkPromiseOptions = {
   shouldIncludePath?: (_path: string, isDirectory: boolean) => boolean;
   stderr: Stderr;
+  // The maximum number of `lstat()` and `readdir()` calls running at the same
+  // time.
+  concurrency?: number;
+  // The names of the `.gitignore`-style files to load from every directory of
+  // the tree, e.g. `['.gitignore']`. Their rules apply to the directory
+  // containing them.
+  ignoreFileNames?: string[];
+  // The paths of `.gitignore`-style files whose rules apply to the whole tree.
+  ignoreFiles?: string[];
+  // The maximum number of nested directories, the files at the top level of
+  // the walked directory being at depth 0.
+  maxDepth?: number;
+  // The maximum number of files.
+  maxFiles?: number;
+  // The maximum sum of the sizes of the files, in bytes.
+  maxTotalSize?: number;
+  // By default, exceeding one of the limits above rejects with a
+  // `WalkLimitExceededError`. When enabled, the walk stops early and resolves
+  // with the files found so far (which depend on the file system timing)
+  // instead.
+  truncate?: boolean;
+  // Called with the reason when the walk has been truncated.
+  onTruncated?: (error: WalkLimitExceededError) => void;
+  symlinks?: SymlinkPolicy;
+  // Called for each symlink that is not followed.
+  onSkippedSymlink?: (symlink: SkippedSymlink) => void;
+  _lstat?: typeof lstat;
+  _readdir?: typeof readdir;
+  _realpath?: typeof realpath;
+  _stat?: typeof stat;
 };
 
+// Identifies a file or directory regardless of the path used to access it.
+function getInodeId(stats: fs.Stats) {
+  return `${stats.dev}:${stats.ino}`;
+}
+
+/*
+ * Compares two file paths by their UTF-16 code units, which unlike
+ * `localeCompare()` does not depend on the current locale.
+ */
+export function compareFilePaths(a: string, b: string) {
+  if (a < b) {
+    return -1;
+  }
+  if (a > b) {
+    return 1;
+  }
+  return 0;
+}
+
+/*
+ * Returns a copy of `files` with the keys in lexicographic order.
+ */
+export function sortFiles<T>(files: Record<string, T>): Record<string, T> {
+  const sortedFiles: Record<string, T> = {};
+
+  Object.keys(files)
+    .sort(compareFilePaths)
+    .forEach((filePath) => {
+      sortedFiles[filePath] = files[filePath];
+    });
+
+  return sortedFiles;
+}
+
+// The rules of an ignore file, which apply to the paths under `base`.
+type IgnoreRules = { base: string; source: string; rules: Ignore };
+
+async function readIgnoreRules(
+  filePath: string,
+  base: string,
+  source: string,
+): Promise<IgnoreRules> {
+  const content = await readFile(filePath, 'utf8');
+
+  return { base, source, rules: ignore().add(content) };
+}
+
+/*
+ * Returns why a path is ignored or `null` when it is not. Like git, the rules
+ * of the deepest ignore files take precedence and `.git` directories are
+ * always ignored.
+ */
+function getIgnoredReason(
+  relPath: string,
+  isDirectory: boolean,
+  ignoreRules: IgnoreRules[],
+) {
+  if (isDirectory && path.posix.basename(relPath) === '.git') {
+    return 'git directory';
+  }
+
+  let reason = null;
+  ignoreRules.forEach(({ base, source, rules }) => {
+    const pathInBase = path.posix.relative(base, relPath);
+    const { ignored, unignored, rule } = rules.test(
+      isDirectory ? `${pathInBase}/` : pathInBase,
+    );
+
+    if (ignored) {
+      reason = `ignored by "${rule?.pattern}" in ${source}`;
+    } else if (unignored) {
+      reason = null;
+    }
+  });
+
+  return reason;
+}
+
+/*
+ * Returns a function that runs the given async tasks with no more than
+ * `concurrency` of them pending at once. The other tasks are queued and
+ * started in order as soon as a slot becomes available.
+ */
+function createConcurrencyLimiter(concurrency: number) {
+  if (!Number.isSafeInteger(concurrency) || concurrency < 1) {
+    throw new RangeError(oneLine`Expected concurrency to be a positive
+      integer, got ${concurrency}`);
+  }
+
+  const queue: (() => void)[] = [];
+  let pending = 0;
+
+  return async function limit<T>(task: () => Promise<T>): Promise<T> {
+    if (pending >= concurrency) {
+      // The slot is handed over by the task that releases it so that a new
+      // task cannot take it in the meantime.
+      await new Promise<void>((resolve) => {
+        queue.push(resolve);
+      });
+    } else {
+      pending++;
+    }
+
+    try {
+      return await task();
+    } finally {
+      const start = queue.shift();
+      if (start) {
+        start();
+      } else {
+        pending--;
+      }
+    }
+  };
+}
+
 export function walkPromise(
   curPath: string,
-  { shouldIncludePath = () => true, stderr }: WalkPromiseOptions,
+  {
+    shouldIncludePath = () => true,
+    stderr,
+    concurrency = DEFAULT_WALK_CONCURRENCY,
+    ignoreFileNames = [],
+    ignoreFiles = [],
+    maxDepth = Infinity,
+    maxFiles = Infinity,
+    maxTotalSize = Infinity,
+    truncate = false,
+    onTruncated = () => {},
+    symlinks = 'skip',
+    onSkippedSymlink = () => {},
+    _lstat = lstat,
+    _readdir = readdir,
+    _realpath = realpath,
+    _stat = stat,
+  }: WalkPromiseOptions,
 ) {
   const result: { [path: string]: { size: number } } = {};
+  // Only the file system calls are limited, not the recursion itself: a
+  // directory never holds a slot while its children are being walked, which
+  // would otherwise dead-lock deep trees.
+  const limit = createConcurrencyLimiter(concurrency);
   // Set a basePath var with the initial path so all file paths (the result
   // keys) can be relative to the starting point.
   const basePath = curPath;
-  const walk = async function walk(_curPath: string) {
-    const stat = await lstat(_curPath);
+  let baseRealPath: Promise<string> | undefined;
+
+  const skipSymlink = (symlink: SkippedSymlink) => {
+    stderr.info(oneLine`Skipping symlink: ${symlink.path}
+      (${symlink.reason})`);
+    onSkippedSymlink(symlink);
+  };
+
+  // Returns the stats of the target of a symlink, or `null` when the symlink
+  // should not be followed.
+  const followSymlink = async (
+    symlinkPath: string,
+    relPath: string,
+    ancestors: string[],
+  ) => {
+    if (symlinks === 'skip') {
+      skipSymlink({ path: relPath, target: null, reason: 'not-followed' });
+      return null;
+    }
+
+    let target: string;
+    let targetStats: fs.Stats;
+    try {
+      target = await limit(() => _realpath(symlinkPath));
+      targetStats = await limit(() => _stat(target));
+    } catch (error) {
+      stderr.debug(`Could not resolve symlink ${relPath}: ${error}`);
+      skipSymlink({ path: relPath, target: null, reason: 'broken' });
+      return null;
+    }
+
+    if (symlinks === 'follow-inside-root') {
+      if (!baseRealPath) {
+        baseRealPath = limit(() => _realpath(basePath));
+      }
+      const root = await baseRealPath;
+
+      if (target !== root && !target.startsWith(`${root}${path.sep}`)) {
+        skipSymlink({ path: relPath, target, reason: 'outside-root' });
+        return null;
+      }
+    }
+
+    if (ancestors.includes(getInodeId(targetStats))) {
+      skipSymlink({ path: relPath, target, reason: 'cycle' });
+      return null;
+    }
+
+    return targetStats;
+  };
+
+  const useIgnoreRules = ignoreFileNames.length > 0 || ignoreFiles.length > 0;
+
+  let fileCount = 0;
+  let totalSize = 0;
+  // Set when a limit has been exceeded so that the pending walks stop early.
+  let stopped = false;
+
+  const exceedLimit = (error: WalkLimitExceededError) => {
+    if (stopped) {
+      return;
+    }
+    stopped = true;
+
+    if (!truncate) {
+      throw error;
+    }
+    stderr.info(`Truncating the walk of ${basePath}: ${error.message}`);
+    onTruncated(error);
+  };
+
+  const walk = async function walk(
+    _curPath: string,
+    ancestors: string[],
+    ignoreRules: IgnoreRules[],
+  ) {
+    if (stopped) {
+      return result;
+    }
+
+    let stats: fs.Stats | null = await limit(() => _lstat(_curPath));
     const relPath = upath.toUnix(path.relative(basePath, _curPath));
 
-    if (!shouldIncludePath(relPath, stat.isDirectory())) {
+    // Like git, the ignore rules are applied to the symlinks themselves and
+    // not to their targets.
+    const ignoredReason =
+      useIgnoreRules && relPath !== ''
+        ? getIgnoredReason(relPath, stats.isDirectory(), ignoreRules)
+        : null;
+    if (ignoredReason) {
+      stderr.debug(`Skipping file path: ${relPath} (${ignoredReason})`);
+      return result;
+    }
+
+    if (stats.isSymbolicLink()) {
+      stats = await followSymlink(_curPath, relPath, ancestors);
+
+      if (!stats) {
+        return result;
+      }
+    }
+
+    if (!shouldIncludePath(relPath, stats.isDirectory())) {
       stderr.debug(`Skipping file path: ${relPath}`);
-    } else if (stat.isFile()) {
-      const { size } = stat;
-      result[relPath] = { size };
-    } else if (stat.isDirectory()) {
-      const files = await readdir(_curPath);
+    } else if (stats.isFile()) {
+      const { size } = stats;
+
+      if (fileCount >= maxFiles) {
+        exceedLimit(
+          new WalkLimitExceededError(
+            `Directory contains more than ${maxFiles} files`,
+            { path: relPath, limitName: 'maxFiles', limit: maxFiles },
+          ),
+        );
+      } else if (totalSize + size > maxTotalSize) {
+        exceedLimit(
+          new WalkLimitExceededError(
+            oneLine`Directory exceeds the maximum total size of
+              ${maxTotalSize} bytes`,
+            { path: relPath, limitName: 'maxTotalSize', limit: maxTotalSize },
+          ),
+        );
+      } else if (!stopped) {
+        fileCount++;
+        totalSize += size;
+        result[relPath] = { size };
+      }
+    } else if (stats.isDirectory()) {
+      const depth = relPath === '' ? 0 : relPath.split('/').length;
+
+      if (depth > maxDepth) {
+        exceedLimit(
+          new WalkLimitExceededError(
+            `Directory "${relPath}" is nested deeper than ${maxDepth} levels`,
+            { path: relPath, limitName: 'maxDepth', limit: maxDepth },
+          ),
+        );
+        return result;
+      }
+
+      const files = await limit(() => _readdir(_curPath));
+      // The directories being walked, used to detect symlink cycles.
+      const childAncestors = [...ancestors, getInodeId(stats)];
+      const childIgnoreRules = [
+        ...ignoreRules,
+        ...(await Promise.all(
+          ignoreFileNames
+            .filter((fileName) => files.includes(fileName))
+            .map((fileName) => {
+              const filePath = path.join(_curPath, fileName);
+              const source = upath.toUnix(path.join(relPath, fileName));
+
+              return limit(() => readIgnoreRules(filePath, relPath, source));
+            }),
+        )),
+      ];
 
       // Map the list of files and make a list of readdir promises to pass to
       // Promise.all so we can recursively get the data on all the files in the
       // directory.
       await Promise.all(
         files.map(async (fileName) => {
-          await walk(path.join(_curPath, fileName));
+          await walk(
+            path.join(_curPath, fileName),
+            childAncestors,
+            childIgnoreRules,
+          );
         }),
       );
     }
     return result;
   };
-  return walk(curPath);
+  // The files are found concurrently so we sort them to return them in the
+  // same order on every run.
+  return Promise.all(
+    ignoreFiles.map((filePath) =>
+      limit(() => readIgnoreRules(filePath, '', filePath)),
+    ),
+  )
+    .then((ignoreRules) => walk(curPath, [], ignoreRules))
+    .then(sortFiles);
+}
+
+export type PathTraversalReason =
+  'absolute' | 'drive-letter' | 'parent-directory';
+
+export type UnsafePathReason =
+  | PathTraversalReason
+  | 'backslash'
+  | 'non-normalized'
+  | 'trailing-dot-or-space';
+
+/*
+ * Returns why a relative path would escape the directory it is resolved
+ * against, or `null` when it would not.
+ */
+export function getPathTraversalReason(
+  filePath: string,
+): PathTraversalReason | null {
+  if (/^[a-zA-Z]:/.test(filePath)) {
+    return 'drive-letter';
+  }
+
+  if (filePath.startsWith('/') || filePath.startsWith('\\')) {
+    return 'absolute';
+  }
+
+  if (filePath.split(/[/\\]/).includes('..')) {
+    return 'parent-directory';
+  }
+
+  return null;
+}
+
+/*
+ * Returns why a relative path might be unsafe to extract, or `null` when it
+ * is safe. On top of the path traversal checks, this flags paths that are
+ * interpreted differently depending on the platform, e.g. Windows strips
+ * trailing dots and spaces so that `foo.js.` and `foo.js` are the same file.
+ */
+export function getUnsafePathReason(filePath: string): UnsafePathReason | null {
+  const traversalReason = getPathTraversalReason(filePath);
+  if (traversalReason) {
+    return traversalReason;
+  }
+
+  if (filePath.includes('\\')) {
+    return 'backslash';
+  }
+
+  const segments = filePath.split('/');
+
+  if (segments.some((segment) => segment === '' || segment === '.')) {
+    return 'non-normalized';
+  }
+
+  if (segments.some((segment) => /[. ]$/.test(segment))) {
+    return 'trailing-dot-or-space';
+  }
+
+  return null;
 }
 
 export async function checkFileExists(
@@ -72,3 +481,204 @@ export async function checkFileExists(
 
   throw invalidMessage;
 }
+
+/*
+ * Returns a transform stream that passes data through until more than
+ * `maxBytes` bytes have been read, at which point it errors with the error
+ * returned by `createError()`.
+ */
+export function createSizeLimitStream(
+  maxBytes: number,
+  createError: () => Error,
+): Transform {
+  let readBytes = 0;
+
+  return new Transform({
+    transform(chunk: Buffer, encoding, callback) {
+      readBytes += chunk.length;
+
+      if (readBytes > maxBytes) {
+        callback(createError());
+        return;
+      }
+
+      callback(null, chunk);
+    },
+  });
+}
+
+/*
+ * Returns a function telling whether a relative path (with forward slashes)
+ * matches at least one of the patterns and none of the negated patterns,
+ * i.e. the ones starting with `!`. When there are only negated patterns, any
+ * other path matches.
+ */
+export function createGlobMatcher(patterns: string[]) {
+  // Dotfiles are matched like any other file, e.g. `**/*.js` matches
+  // `.hidden/file.js`, because they are also part of the package.
+  const options = { dot: true };
+  const includePatterns = patterns.filter((pattern) => {
+    return !pattern.startsWith('!');
+  });
+  const excludePatterns = patterns
+    .filter((pattern) => pattern.startsWith('!'))
+    .map((pattern) => pattern.slice(1));
+
+  const isIncluded = includePatterns.length
+    ? picomatch(includePatterns, options)
+    : () => true;
+  const isExcluded = excludePatterns.length
+    ? picomatch(excludePatterns, options)
+    : () => false;
+
+  return (filePath: string) => isIncluded(filePath) && !isExcluded(filePath);
+}
+
+/*
+ * Throws when the offset or the length of a range are not positive integers.
+ */
+export function checkRange(offset: number, length: number) {
+  [offset, length].forEach((value) => {
+    if (!Number.isSafeInteger(value) || value < 0) {
+      throw new RangeError(oneLine`Expected the offset and length of a range
+        to be positive integers, got ${value}`);
+    }
+  });
+}
+
+/*
+ * Reads `length` bytes from a file at `offset` without reading the rest of
+ * the file. Less bytes are returned when the file ends before the range.
+ */
+export async function readFileRange(
+  filePath: string,
+  offset: number,
+  length: number,
+): Promise<Buffer> {
+  const fileHandle = await fs.promises.open(filePath, 'r');
+
+  try {
+    const { size } = await fileHandle.stat();
+    const buffer = Buffer.alloc(Math.max(Math.min(length, size - offset), 0));
+    const { bytesRead } = await fileHandle.read(
+      buffer,
+      0,
+      buffer.length,
+      offset,
+    );
+
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await fileHandle.close();
+  }
+}
+
+/*
+ * Consumes a stream until `length` bytes starting at `offset` have been read
+ * and destroys it. Less bytes are returned when the stream ends before the
+ * range.
+ */
+export function readRangeFromStream(
+  stream: Readable,
+  offset: number,
+  length: number,
+): Promise<Buffer> {
+  const end = offset + length;
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let position = 0;
+
+    stream.on('data', (chunk: Buffer) => {
+      const chunkStart = position;
+      position += chunk.length;
+
+      if (position > offset && chunkStart < end) {
+        chunks.push(
+          chunk.subarray(
+            Math.max(offset - chunkStart, 0),
+            Math.min(end - chunkStart, chunk.length),
+          ),
+        );
+      }
+
+      if (position >= end) {
+        stream.destroy();
+        resolve(Buffer.concat(chunks));
+      }
+    });
+    stream.on('end', () => {
+      resolve(Buffer.concat(chunks));
+    });
+    stream.on('error', reject);
+  });
+}
+
+/*
+ * Resolves with the whole content of a stream.
+ */
+export function readBufferFromStream(stream: Readable): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    stream.on('data', (chunk: Buffer) => {
+      chunks.push(chunk);
+    });
+    stream.on('end', () => {
+      resolve(Buffer.concat(chunks));
+    });
+    stream.on('error', reject);
+  });
+}
+
+/*
+ * Feeds the content of a stream to `hash` and resolves with the hexadecimal
+ * digest once the stream has ended.
+ */
+export function hashStream(stream: Readable, hash: Hash): Promise<string> {
+  return new Promise((resolve, reject) => {
+    stream.on('data', (chunk: Buffer) => {
+      hash.update(chunk);
+    });
+    stream.on('end', () => {
+      resolve(hash.digest('hex'));
+    });
+    stream.on('error', reject);
+  });
+}
+
+const BYTE_ORDER_MARKS = [
+  { bom: UTF8_BOM, encoding: 'utf-8' },
+  { bom: Buffer.from([0xff, 0xfe]), encoding: 'utf-16le' },
+  { bom: Buffer.from([0xfe, 0xff]), encoding: 'utf-16be' },
+];
+
+export type DecodeBufferOptions = {
+  // The encoding of content without a BOM, e.g. "latin1". This can be any
+  // label supported by `TextDecoder`.
+  fallbackEncoding?: string;
+};
+
+export type DecodedText = {
+  content: string;
+  // The name of the encoding used to decode the content, as returned by
+  // `TextDecoder` (e.g. "utf-16le" or "windows-1252" for "latin1").
+  encoding: string;
+};
+
+/*
+ * Decodes a buffer according to its BOM, which is stripped, or with the
+ * fallback encoding when there is no BOM.
+ */
+export function decodeBuffer(
+  buffer: Buffer,
+  { fallbackEncoding = 'utf-8' }: DecodeBufferOptions = {},
+): DecodedText {
+  const byteOrderMark = BYTE_ORDER_MARKS.find(({ bom }) => {
+    return buffer.subarray(0, bom.length).equals(bom);
+  });
+  const decoder = new TextDecoder(
+    byteOrderMark ? byteOrderMark.encoding : fallbackEncoding,
+  );
+
+  return { content: decoder.decode(buffer), encoding: decoder.encoding };
+}
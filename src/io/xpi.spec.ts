@@ -4,12 +4,23 @@ import { EventEmitter } from 'events';
 
 import yauzl, { Entry, ZipFile } from 'yauzl';
 
-import { DuplicateZipEntryError, InvalidZipFileError } from '../errors';
-import { Xpi, Files } from './xpi';
+import {
+  DuplicateZipEntryError,
+  EncryptedZipEntryError,
+  EntryNameCollisionError,
+  EntrySizeExceededError,
+  FileNotFoundInPackageError,
+  FileTooLargeError,
+  InvalidZipFileError,
+  UnsafeZipEntryError,
+  ZipBombError,
+} from '../errors';
+import { Xpi, Files, XpiConstructorParams } from './xpi';
 import { DEFLATE_COMPRESSION, NO_COMPRESSION } from './const';
 import {
   createFakeStderr,
   createFakeZipFile,
+  createZipBuffer,
   readStringFromStream,
 } from '../test-helpers';
 
@@ -91,8 +102,9 @@ describe(__filename, () => {
     filePath = 'foo/bar',
     stderr = createFakeStderr(),
     zipLib = fakeZipLib,
-  } = {}) => {
-    return new XpiTest({ filePath, autoClose, stderr, zipLib });
+    ...otherParams
+  }: Partial<XpiConstructorParams> = {}) => {
+    return new XpiTest({ filePath, autoClose, stderr, zipLib, ...otherParams });
   };
 
   describe('open()', () => {
@@ -220,6 +232,20 @@ describe(__filename, () => {
       fakeZipFile.on = onStub;
     });
 
+    const getFilesWithEntries = (myXpi: Xpi, entries: Entry[]) => {
+      openStub.mockImplementation((path, options, callback) => {
+        setImmediate(() => callback(null, fakeZipFile));
+      });
+      endStub.mockImplementation((callback: () => void) => {
+        setImmediate(callback);
+      });
+
+      return myXpi.getFiles(() => {
+        const entryCallback = entryStub.mock.calls[0][0];
+        entries.forEach((entry) => entryCallback.call(null, entry));
+      });
+    };
+
     it('should init class props as expected', () => {
       const filePath = 'foo/bar';
       const myXpi = createXpi({ filePath });
@@ -383,6 +409,327 @@ describe(__filename, () => {
       await expect(promise).rejects.toThrow(DuplicateZipEntryError);
     });
 
+    describe('budgets', () => {
+      it('does not enforce any budget by default', async () => {
+        const myXpi = createXpi();
+
+        const files = await getFilesWithEntries(myXpi, [
+          chromeManifestEntry,
+          installFileEntry,
+          { ...jsMainFileEntry, compressedSize: 0 } as Entry,
+        ]);
+
+        expect(Object.keys(files)).toHaveLength(3);
+        expect(myXpi.entryCount).toEqual(3);
+        expect(myXpi.totalUncompressedSize).toEqual(275 + 851 + 85);
+      });
+
+      it('rejects when there are too many entries', async () => {
+        const stderr = createFakeStderr();
+        const myXpi = createXpi({ maxEntries: 2, stderr });
+
+        const promise = getFilesWithEntries(myXpi, [
+          chromeManifestEntry,
+          chromeContentDir as Entry,
+          installFileEntry,
+        ]);
+
+        await expect(promise).rejects.toThrow(ZipBombError);
+        await expect(promise).rejects.toThrow(
+          'Package contains more than 2 entries',
+        );
+        expect(stderr.info).toHaveBeenCalledWith(
+          'Package contains more than 2 entries',
+        );
+      });
+
+      it('rejects when the total uncompressed size is too large', async () => {
+        const myXpi = createXpi({ maxTotalSizeBytes: 1000 });
+
+        const promise = getFilesWithEntries(myXpi, [
+          chromeManifestEntry,
+          installFileEntry,
+        ]);
+
+        await expect(promise).rejects.toThrow(ZipBombError);
+        await expect(promise).rejects.toThrow(
+          'Package exceeds the maximum total uncompressed size of 1000 bytes',
+        );
+      });
+
+      it('counts entries that are not scanned', async () => {
+        const myXpi = createXpi({ maxTotalSizeBytes: 1000 });
+        myXpi.setScanFileCallback((filePath) => filePath !== 'manifest.json');
+
+        await expect(
+          getFilesWithEntries(myXpi, [chromeManifestEntry, installFileEntry]),
+        ).rejects.toThrow(ZipBombError);
+      });
+
+      it('rejects when the compression ratio of an entry is too high', async () => {
+        const myXpi = createXpi({ maxCompressionRatio: 100 });
+
+        const promise = getFilesWithEntries(myXpi, [
+          chromeManifestEntry,
+          { ...jsMainFileEntry, compressedSize: 1, uncompressedSize: 1000 },
+        ] as Entry[]);
+
+        await expect(promise).rejects.toThrow(ZipBombError);
+        await expect(promise).rejects.toThrow(
+          'Entry "main.js" has a compression ratio above 100',
+        );
+      });
+
+      it('rejects a non-empty entry without compressed data', async () => {
+        const myXpi = createXpi({ maxCompressionRatio: 100 });
+
+        await expect(
+          getFilesWithEntries(myXpi, [
+            { ...jsMainFileEntry, compressedSize: 0 } as Entry,
+          ]),
+        ).rejects.toThrow(ZipBombError);
+      });
+
+      it('accepts empty entries when the compression ratio is limited', async () => {
+        const myXpi = createXpi({ maxCompressionRatio: 100 });
+
+        const files = await getFilesWithEntries(myXpi, [
+          chromeContentDir as Entry,
+          { ...jsMainFileEntry, compressedSize: 0, uncompressedSize: 0 },
+        ] as Entry[]);
+
+        expect(Object.keys(files)).toEqual(['main.js']);
+      });
+
+      it('enforces budgets on real files', async () => {
+        const xpi = new Xpi({
+          filePath: 'src/tests/fixtures/io/simple-archive.zip',
+          maxTotalSizeBytes: 11,
+          stderr: createFakeStderr(),
+        });
+
+        await expect(xpi.getFiles()).rejects.toThrow(ZipBombError);
+      });
+    });
+
+    describe('unsafe paths', () => {
+      const unsafeEntry = {
+        ...jsMainFileEntry,
+        fileName: 'main.js.',
+      } as Entry;
+
+      it('ignores unsafe paths by default', async () => {
+        const myXpi = createXpi();
+
+        const files = await getFilesWithEntries(myXpi, [unsafeEntry]);
+
+        expect(Object.keys(files)).toEqual(['main.js.']);
+        expect(myXpi.unsafeEntries).toEqual([]);
+      });
+
+      it('reports unsafe paths', async () => {
+        const stderr = createFakeStderr();
+        const myXpi = createXpi({ unsafePaths: 'report', stderr });
+
+        const files = await getFilesWithEntries(myXpi, [
+          chromeManifestEntry,
+          chromeContentDir as Entry,
+          unsafeEntry,
+          { ...chromeContentDir, fileName: 'chrome /' } as Entry,
+        ]);
+
+        expect(Object.keys(files)).toEqual(['chrome.manifest', 'main.js.']);
+        expect(myXpi.unsafeEntries).toEqual([
+          { path: 'main.js.', reason: 'trailing-dot-or-space' },
+          { path: 'chrome /', reason: 'trailing-dot-or-space' },
+        ]);
+        expect(stderr.info).toHaveBeenCalledWith(
+          'found unsafe entry path: "main.js." (trailing-dot-or-space)',
+        );
+      });
+
+      it('reports unsafe paths of entries that are not scanned', async () => {
+        const myXpi = createXpi({ unsafePaths: 'report' });
+        myXpi.setScanFileCallback(() => false);
+
+        await getFilesWithEntries(myXpi, [unsafeEntry]);
+
+        expect(myXpi.unsafeEntries).toEqual([
+          { path: 'main.js.', reason: 'trailing-dot-or-space' },
+        ]);
+      });
+
+      it('rejects unsafe paths', async () => {
+        const myXpi = createXpi({ unsafePaths: 'reject' });
+
+        const promise = getFilesWithEntries(myXpi, [
+          chromeManifestEntry,
+          { ...jsMainFileEntry, fileName: 'C:/main.js' } as Entry,
+        ]);
+
+        await expect(promise).rejects.toThrow(UnsafeZipEntryError);
+        await expect(promise).rejects.toThrow(
+          'Entry "C:/main.js" has an unsafe path (drive-letter)',
+        );
+        await expect(promise).rejects.toMatchObject({
+          path: 'C:/main.js',
+          reason: 'drive-letter',
+        });
+        expect(myXpi.unsafeEntries).toEqual([]);
+      });
+    });
+
+    describe('encrypted entries', () => {
+      const encryptedEntry = {
+        ...jsMainFileEntry,
+        generalPurposeBitFlag: 0x0001,
+      } as Entry;
+
+      it('keeps track of encrypted entries', async () => {
+        const stderr = createFakeStderr();
+        const myXpi = createXpi({ stderr });
+
+        const files = await getFilesWithEntries(myXpi, [
+          chromeManifestEntry,
+          encryptedEntry,
+        ]);
+
+        expect(Object.keys(files)).toEqual(['chrome.manifest', 'main.js']);
+        expect(myXpi.encryptedEntries).toEqual(['main.js']);
+        expect(stderr.info).toHaveBeenCalledWith(
+          'found encrypted entry: "main.js"',
+        );
+      });
+
+      it('keeps track of encrypted entries that are not scanned', async () => {
+        const myXpi = createXpi();
+        myXpi.setScanFileCallback(() => false);
+
+        await getFilesWithEntries(myXpi, [encryptedEntry]);
+
+        expect(myXpi.encryptedEntries).toEqual(['main.js']);
+      });
+
+      it('does not consider other flags as encryption', async () => {
+        const myXpi = createXpi();
+
+        await getFilesWithEntries(myXpi, [
+          { ...jsMainFileEntry, generalPurposeBitFlag: 0x0808 } as Entry,
+        ]);
+
+        expect(myXpi.encryptedEntries).toEqual([]);
+      });
+    });
+
+    describe('name collisions', () => {
+      const upperCaseEntry = {
+        ...jsMainFileEntry,
+        fileName: 'Main.js',
+      } as Entry;
+      // "é" as "e" followed by a combining acute accent (NFD).
+      const nfdEntry = {
+        ...jsMainFileEntry,
+        fileName: 'caf\u0065\u0301.js',
+      } as Entry;
+      // "é" as a single code point (NFC).
+      const nfcEntry = {
+        ...jsMainFileEntry,
+        fileName: 'caf\u00e9.js',
+      } as Entry;
+
+      it('ignores collisions by default', async () => {
+        const myXpi = createXpi();
+
+        const files = await getFilesWithEntries(myXpi, [
+          jsMainFileEntry,
+          upperCaseEntry,
+        ]);
+
+        expect(Object.keys(files)).toEqual(['main.js', 'Main.js']);
+        expect(myXpi.collidingEntries).toEqual([]);
+      });
+
+      it('reports names that only differ by case', async () => {
+        const stderr = createFakeStderr();
+        const myXpi = createXpi({ collisions: 'report', stderr });
+
+        const files = await getFilesWithEntries(myXpi, [
+          jsMainFileEntry,
+          chromeManifestEntry,
+          upperCaseEntry,
+        ]);
+
+        expect(Object.keys(files)).toEqual([
+          'main.js',
+          'chrome.manifest',
+          'Main.js',
+        ]);
+        expect(myXpi.collidingEntries).toEqual([
+          { path: 'Main.js', collidesWith: 'main.js' },
+        ]);
+        expect(stderr.info).toHaveBeenCalledWith(
+          'found colliding entry names: "Main.js" and "main.js"',
+        );
+      });
+
+      it('reports names that only differ by Unicode normalization', async () => {
+        const myXpi = createXpi({ collisions: 'report' });
+
+        await getFilesWithEntries(myXpi, [nfdEntry, nfcEntry]);
+
+        expect(myXpi.collidingEntries).toEqual([
+          { path: nfcEntry.fileName, collidesWith: nfdEntry.fileName },
+        ]);
+      });
+
+      it('reports collisions between directories', async () => {
+        const myXpi = createXpi({ collisions: 'report' });
+
+        await getFilesWithEntries(myXpi, [
+          chromeContentDir as Entry,
+          { ...chromeContentDir, fileName: 'Chrome/content/' } as Entry,
+        ]);
+
+        expect(myXpi.collidingEntries).toEqual([
+          { path: 'Chrome/content/', collidesWith: 'chrome/content/' },
+        ]);
+      });
+
+      it('rejects collisions', async () => {
+        const myXpi = createXpi({ collisions: 'reject' });
+
+        const promise = getFilesWithEntries(myXpi, [
+          jsMainFileEntry,
+          upperCaseEntry,
+        ]);
+
+        await expect(promise).rejects.toThrow(EntryNameCollisionError);
+        // This is a special kind of duplicate entries.
+        await expect(promise).rejects.toThrow(DuplicateZipEntryError);
+        await expect(promise).rejects.toThrow(
+          'Entry "Main.js" collides with "main.js"',
+        );
+        await expect(promise).rejects.toMatchObject({
+          path: 'Main.js',
+          collidesWith: 'main.js',
+        });
+      });
+
+      it('still rejects exact duplicates with a DuplicateZipEntryError', async () => {
+        const myXpi = createXpi({ collisions: 'reject' });
+
+        const promise = getFilesWithEntries(myXpi, [
+          installFileEntry,
+          dupeInstallFileEntry,
+        ]);
+
+        await expect(promise).rejects.toThrow(
+          'Entry "manifest.json" has already been seen',
+        );
+        await expect(promise).rejects.not.toThrow(EntryNameCollisionError);
+      });
+    });
+
     it('should reject on errors in open()', async () => {
       const myXpi = createXpi();
 
@@ -444,6 +791,15 @@ describe(__filename, () => {
       }).toThrow('Unexpected fileStreamType value "whatever"');
     });
 
+    it('should throw a TypeError if fileStreamType is incorrect', () => {
+      const myXpi = createXpi();
+
+      expect(() => {
+        // @ts-expect-error: we test the guard that prevents an invalid second argument value.
+        myXpi.getFile('whatever-file', 'whatever');
+      }).toThrow(TypeError);
+    });
+
     it('should call getFileAsString', () => {
       const myXpi = createXpi();
       const fakeFile = 'fakeFile';
@@ -464,6 +820,22 @@ describe(__filename, () => {
   });
 
   describe('checkPath()', () => {
+    it('should throw an EncryptedZipEntryError for an encrypted file', async () => {
+      const myXpi = createXpi();
+      myXpi._overrideCachedFilesForTests({
+        'main.js': {
+          ...jsMainFileEntry,
+          generalPurposeBitFlag: 0x0001,
+        } as Entry,
+      });
+
+      const promise = myXpi.getFileAsStream('main.js');
+
+      await expect(promise).rejects.toThrow(EncryptedZipEntryError);
+      await expect(promise).rejects.toThrow('Entry "main.js" is encrypted');
+      await expect(promise).rejects.toMatchObject({ path: 'main.js' });
+    });
+
     it('should reject if path does not exist', async () => {
       const myXpi = createXpi();
       myXpi._overrideCachedFilesForTests({
@@ -476,6 +848,18 @@ describe(__filename, () => {
       );
     });
 
+    it('should throw a FileNotFoundInPackageError if path does not exist', async () => {
+      const myXpi = createXpi();
+      myXpi._overrideCachedFilesForTests({
+        'manifest.json': installFileEntry,
+      });
+
+      const promise = myXpi.getFileAsStream('whatever');
+
+      await expect(promise).rejects.toThrow(FileNotFoundInPackageError);
+      await expect(promise).rejects.toMatchObject({ path: 'whatever' });
+    });
+
     it('should reject if file is too big', async () => {
       const myXpi = createXpi();
       const fakeFileMeta = {
@@ -492,6 +876,23 @@ describe(__filename, () => {
       );
     });
 
+    it('should throw a FileTooLargeError if file is too big', async () => {
+      const myXpi = createXpi();
+      const size = 1024 * 1024 * 102;
+      myXpi._overrideCachedFilesForTests({
+        'manifest.json': { uncompressedSize: size } as Entry,
+      });
+
+      const promise = myXpi.getFileAsStream('manifest.json');
+
+      await expect(promise).rejects.toThrow(FileTooLargeError);
+      await expect(promise).rejects.toMatchObject({
+        path: 'manifest.json',
+        size,
+        limit: myXpi.maxSizeBytes,
+      });
+    });
+
     it('should reject if file is too big for getFileAsString too', async () => {
       const myXpi = createXpi();
       const fakeFileMeta = {
@@ -510,6 +911,92 @@ describe(__filename, () => {
 
   // Using a file located in: src/tests/fixtures/io/dir2/dir3/file3.txt
   // The location is not relevant, the file contents are.
+  describe('getRangeAsBuffer()', () => {
+    it('reads a range of a stored entry at the right position', async () => {
+      const myXpi = createXpi();
+      myXpi._overrideCachedFilesForTests({
+        'file.bin': {
+          compressionMethod: NO_COMPRESSION,
+          compressedSize: 8,
+          uncompressedSize: 8,
+        } as Entry,
+      });
+
+      openStub.mockImplementation((path, options, callback) => {
+        setImmediate(() => callback(null, fakeZipFile));
+      });
+      openReadStreamStub.mockImplementation((entry, options, callback) => {
+        callback(null, Readable.from([Buffer.from('cdef')]));
+      });
+
+      const buffer = await myXpi.getRangeAsBuffer('file.bin', 2, 4);
+
+      expect(buffer.toString()).toEqual('cdef');
+      expect(openReadStreamStub).toHaveBeenCalledWith(
+        myXpi.files['file.bin'],
+        { start: 2, end: 6 },
+        expect.any(Function),
+      );
+    });
+
+    it('does not read past the end of a stored entry', async () => {
+      const myXpi = createXpi();
+      myXpi._overrideCachedFilesForTests({
+        'file.bin': {
+          compressionMethod: NO_COMPRESSION,
+          compressedSize: 8,
+          uncompressedSize: 8,
+        } as Entry,
+      });
+
+      await expect(myXpi.getRangeAsBuffer('file.bin', 10, 4)).resolves.toEqual(
+        Buffer.alloc(0),
+      );
+      expect(openStub).not.toHaveBeenCalled();
+    });
+
+    it('decompresses a deflated entry up to the end of the range', async () => {
+      const myXpi = createXpi();
+      myXpi._overrideCachedFilesForTests({
+        'main.js': jsMainFileEntry,
+      });
+
+      openStub.mockImplementation((path, options, callback) => {
+        setImmediate(() => callback(null, fakeZipFile));
+      });
+      openReadStreamStub.mockImplementation((entry, callback) => {
+        callback(
+          null,
+          Readable.from([Buffer.from('some '), Buffer.from('js')]),
+        );
+      });
+
+      await expect(myXpi.getRangeAsBuffer('main.js', 3, 4)).resolves.toEqual(
+        Buffer.from('e js'),
+      );
+    });
+
+    it('rejects an invalid range', async () => {
+      const myXpi = createXpi();
+      myXpi._overrideCachedFilesForTests({
+        'main.js': jsMainFileEntry,
+      });
+
+      await expect(myXpi.getRangeAsBuffer('main.js', -1, 4)).rejects.toThrow(
+        'Expected the offset and length of a range to be positive integers',
+      );
+    });
+
+    it('rejects if path does not exist', async () => {
+      const myXpi = createXpi();
+      myXpi._overrideCachedFilesForTests({});
+
+      await expect(myXpi.getRangeAsBuffer('whatever', 0, 4)).rejects.toThrow(
+        FileNotFoundInPackageError,
+      );
+    });
+  });
+
   describe('getChunkAsBuffer()', () => {
     it('should reject if error in openReadStream', async () => {
       const myXpi = createXpi();
@@ -720,6 +1207,97 @@ describe(__filename, () => {
       expect(string.charCodeAt(0) === 0xfeff).toBeFalsy();
     });
 
+    it('should not strip a BOM from the raw stream', async () => {
+      const myXpi = createXpi();
+      myXpi._overrideCachedFilesForTests({
+        'manifest.json': {
+          ...installFileEntry,
+          uncompressedSize: 1024,
+        } as Entry,
+      });
+
+      openStub.mockImplementation((path, options, callback) => {
+        setImmediate(() => callback(null, fakeZipFile));
+      });
+
+      const rstream = fs.createReadStream('src/tests/fixtures/io/dir3/foo.txt');
+      openReadStreamStub.mockImplementation((entry, callback) => {
+        callback(null, rstream);
+      });
+
+      const stream = await myXpi.getFileAsRawStream('manifest.json');
+      const string = await readStringFromStream(stream, undefined);
+      expect(string.charCodeAt(0)).toEqual(0xfeff);
+    });
+
+    it('should reject when an entry exceeds its declared size', async () => {
+      const myXpi = createXpi();
+      myXpi._overrideCachedFilesForTests({
+        'main.js': { ...jsMainFileEntry, uncompressedSize: 10 } as Entry,
+      });
+
+      openStub.mockImplementation((path, options, callback) => {
+        setImmediate(() => callback(null, fakeZipFile));
+      });
+
+      const rstream = new Readable({ read() {} });
+      rstream.push('x'.repeat(8));
+      rstream.push('x'.repeat(8));
+      rstream.push(null);
+      openReadStreamStub.mockImplementation((entry, callback) => {
+        callback(null, rstream);
+      });
+
+      const promise = myXpi.getFileAsString('main.js');
+
+      await expect(promise).rejects.toThrow(EntrySizeExceededError);
+      await expect(promise).rejects.toThrow(
+        'Entry "main.js" exceeds its declared size of 10 bytes',
+      );
+      await expect(promise).rejects.toMatchObject({
+        path: 'main.js',
+        limit: 10,
+      });
+      expect(rstream.destroyed).toEqual(true);
+    });
+
+    it('should reject when the uncompressed size of a real entry is wrong', async () => {
+      const xpi = new Xpi({
+        filePath:
+          'src/tests/fixtures/io/archive-with-wrong-uncompressed-size.zip',
+        stderr: createFakeStderr(),
+      });
+      await xpi.getFiles();
+
+      await expect(xpi.getFileAsString('file.txt')).rejects.toThrow(
+        new EntrySizeExceededError(
+          'Entry "file.txt" exceeds its declared size of 16 bytes',
+          { path: 'file.txt', limit: 16 },
+        ),
+      );
+    });
+
+    it('should forward other stream errors', async () => {
+      const myXpi = createXpi();
+      myXpi._overrideCachedFilesForTests({
+        'manifest.json': installFileEntry,
+      });
+
+      openStub.mockImplementation((path, options, callback) => {
+        setImmediate(() => callback(null, fakeZipFile));
+      });
+
+      const rstream = new Readable({ read() {} });
+      openReadStreamStub.mockImplementation((entry, callback) => {
+        callback(null, rstream);
+        setImmediate(() => rstream.destroy(new Error('invalid distance')));
+      });
+
+      await expect(myXpi.getFileAsString('manifest.json')).rejects.toThrow(
+        'invalid distance',
+      );
+    });
+
     it('should reject if error in openReadStream from readAsString', async () => {
       const myXpi = createXpi();
       myXpi._overrideCachedFilesForTests({
@@ -759,7 +1337,7 @@ describe(__filename, () => {
         'chrome.manifest': chromeManifestEntry,
       });
 
-      myXpi.getFileAsStream = () => {
+      myXpi.getFileAsRawStream = () => {
         setTimeout(() => {
           fakeStreamEmitter.emit('error', new Error('¡hola!'));
         }, 0);
@@ -844,6 +1422,192 @@ describe(__filename, () => {
     });
   });
 
+  describe('getFileInfo()', () => {
+    it('returns the metadata of a file', async () => {
+      const xpi = new Xpi({
+        filePath: 'src/tests/fixtures/io/simple-archive.zip',
+        stderr: createFakeStderr(),
+      });
+      await xpi.getFiles();
+
+      await expect(xpi.getFileInfo('file')).resolves.toEqual({
+        path: 'file',
+        size: 12,
+        compressedSize: 12,
+        compressionMethod: NO_COMPRESSION,
+        crc32: 1126117695,
+        // There is no timezone information in the archive so the date is in
+        // local time.
+        lastModified: new Date(2019, 9, 11, 16, 26, 16),
+        mode: 0o600,
+      });
+    });
+
+    it('returns the metadata of all the files', async () => {
+      const xpi = new Xpi({
+        filePath: 'src/tests/fixtures/io/simple-archive.zip',
+        stderr: createFakeStderr(),
+      });
+
+      const infos = await xpi.getFileInfos();
+
+      expect(infos.map(({ path }) => path)).toEqual(['file']);
+    });
+
+    it('throws a FileNotFoundInPackageError if path does not exist', async () => {
+      const myXpi = createXpi();
+      myXpi._overrideCachedFilesForTests({});
+
+      await expect(myXpi.getFileInfo('whatever')).rejects.toThrow(
+        FileNotFoundInPackageError,
+      );
+    });
+  });
+
+  describe('getFilesByGlob()', () => {
+    const createXpiWithFiles = () => {
+      const myXpi = createXpi();
+      myXpi._overrideCachedFilesForTests({
+        'manifest.json': installFileEntry,
+        '_locales/en/messages.json': installFileEntry,
+        '_locales/fr/messages.json': installFileEntry,
+        'content_scripts/main.js': jsMainFileEntry,
+        'content_scripts/lib/secondary.js': jsSecondaryFileEntry,
+        'content_scripts/node_modules/dep/index.js': jsSecondaryFileEntry,
+        '.hidden/file.js': jsMainFileEntry,
+      });
+      return myXpi;
+    };
+
+    it('returns the files matching a pattern', async () => {
+      const myXpi = createXpiWithFiles();
+
+      await expect(
+        myXpi.getFilesByGlob('_locales/*/messages.json'),
+      ).resolves.toEqual([
+        '_locales/en/messages.json',
+        '_locales/fr/messages.json',
+      ]);
+    });
+
+    it('returns the files matching any of the patterns', async () => {
+      const myXpi = createXpiWithFiles();
+
+      await expect(
+        myXpi.getFilesByGlob('manifest.json', 'content_scripts/*.js'),
+      ).resolves.toEqual(['manifest.json', 'content_scripts/main.js']);
+    });
+
+    it('excludes the files matching a negated pattern', async () => {
+      const myXpi = createXpiWithFiles();
+
+      await expect(
+        myXpi.getFilesByGlob('content_scripts/**/*.js', '!**/node_modules/**'),
+      ).resolves.toEqual([
+        'content_scripts/main.js',
+        'content_scripts/lib/secondary.js',
+      ]);
+    });
+
+    it('returns all the other files with only negated patterns', async () => {
+      const myXpi = createXpiWithFiles();
+
+      await expect(
+        myXpi.getFilesByGlob('!**/*.js', '!_locales/**'),
+      ).resolves.toEqual(['manifest.json']);
+    });
+
+    it('matches dotfiles', async () => {
+      const myXpi = createXpiWithFiles();
+
+      await expect(myXpi.getFilesByGlob('**/file.js')).resolves.toEqual([
+        '.hidden/file.js',
+      ]);
+    });
+
+    it('returns no files without patterns', async () => {
+      const myXpi = createXpiWithFiles();
+
+      await expect(myXpi.getFilesByGlob()).resolves.toEqual([]);
+    });
+  });
+
+  describe('getArchiveReport()', () => {
+    it('returns a report for the archive', async () => {
+      const xpi = new Xpi({
+        filePath: 'src/tests/fixtures/io/simple-archive.zip',
+        stderr: createFakeStderr(),
+      });
+
+      await expect(xpi.getArchiveReport()).resolves.toEqual({
+        anomalies: [],
+        comment: '',
+        entryCount: 1,
+        prependedBytes: 0,
+        trailingBytes: 0,
+        usesZip64: false,
+      });
+    });
+
+    it('reports structural oddities', async () => {
+      const myXpi = createXpi();
+      myXpi.readArchive = jest.fn().mockResolvedValue(
+        createZipBuffer([{ name: 'file.txt', flags: 1 }], {
+          comment: 'hello',
+        }),
+      );
+
+      const report = await myXpi.getArchiveReport();
+
+      expect(report.anomalies.map(({ type }) => type)).toEqual([
+        'comment',
+        'general-purpose-flags',
+      ]);
+    });
+
+    it('rejects when the file cannot be read', async () => {
+      const myXpi = createXpi({ filePath: 'does-not-exist.zip' });
+
+      await expect(myXpi.getArchiveReport()).rejects.toThrow('ENOENT');
+    });
+  });
+
+  describe('getDeepScanResult()', () => {
+    it('reports overlapping entries', async () => {
+      const stderr = createFakeStderr();
+      const myXpi = createXpi({ stderr });
+      myXpi.readArchive = jest.fn().mockResolvedValue(
+        createZipBuffer([
+          { name: 'a.js', data: Buffer.from('a') },
+          { name: 'b.js', data: Buffer.from('b'), localHeaderOffset: 0 },
+        ]),
+      );
+
+      const result = await myXpi.getDeepScanResult();
+
+      expect(result).toEqual({
+        // The local header written for "b.js" is no longer referenced.
+        hiddenEntries: [{ path: 'b.js', offset: 35 }],
+        overlappingEntries: [{ path: 'b.js', overlapsWith: 'a.js' }],
+      });
+      expect(myXpi.deepScanResult).toEqual(result);
+      expect(stderr.info).toHaveBeenCalledWith(
+        'found entry "b.js" overlapping with "a.js"',
+      );
+    });
+
+    it('rejects getFiles() when the deep scan fails', async () => {
+      const xpi = new Xpi({
+        deepScan: true,
+        filePath: 'src/tests/fixtures/io/simple-archive.zip',
+        stderr: createFakeStderr(),
+      });
+      xpi.readArchive = jest.fn().mockRejectedValue(new Error('read error'));
+
+      await expect(xpi.getFiles()).rejects.toThrow('read error');
+    });
+  });
+
   describe('close()', () => {
     it('closes the zipfile when autoClose is disabled', async () => {
       const xpi = new Xpi({
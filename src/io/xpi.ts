@@ -1,17 +1,159 @@
+import { createWriteStream, promises as fsPromises } from 'fs';
+import nodePath from 'path';
 import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
 
 import yauzl, { Entry, ZipFile } from 'yauzl';
 import FirstChunkStream from 'first-chunk-stream';
 import stripBomStream from 'strip-bom-stream';
 import { oneLine } from 'common-tags';
 
-import { IOBaseConstructorParams, IOBase } from './base';
-import { InvalidZipFileError, DuplicateZipEntryError } from '../errors';
+import {
+  FileInfo,
+  IOBaseConstructorParams,
+  IOBase,
+  IterateFilesOptions,
+  PackageFile,
+} from './base';
+import { NO_COMPRESSION } from './const';
+import { Directory } from './directory';
+import {
+  DecodeBufferOptions,
+  UnsafePathReason,
+  checkRange,
+  compareFilePaths,
+  createSizeLimitStream,
+  decodeBuffer,
+  getUnsafePathReason,
+  readBufferFromStream,
+  readRangeFromStream,
+  sortFiles,
+} from './utils';
+import {
+  ArchiveReport,
+  DeepScanResult,
+  createArchiveReport,
+  createDeepScanResult,
+  getPermissionBits,
+  getUnixMode,
+  isEncrypted,
+} from './zip';
+import {
+  InvalidZipFileError,
+  DuplicateZipEntryError,
+  EncryptedZipEntryError,
+  EntryNameCollisionError,
+  EntrySizeExceededError,
+  FileNotFoundInPackageError,
+  FileTooLargeError,
+  UnsafeZipEntryError,
+  ZipBombError,
+} from '../errors';
 
 export type Files = { [filename: string]: Entry };
 
-type XpiConstructorParams = IOBaseConstructorParams & {
+function createFileInfo(path: string, entry: Entry): FileInfo {
+  return {
+    path,
+    size: entry.uncompressedSize,
+    compressedSize: entry.compressedSize,
+    compressionMethod: entry.compressionMethod,
+    crc32: entry.crc32,
+    lastModified: entry.getLastModDate(),
+    mode: getUnixMode(entry.versionMadeBy, entry.externalFileAttributes),
+  };
+}
+
+/*
+ * Returns a stream without the UTF-8 BOM of `readStream`, errors of
+ * `readStream` are forwarded to the returned stream.
+ */
+function stripBOM(readStream: Readable): Readable {
+  const bomStrippedStream = stripBomStream();
+  readStream.on('error', (error: Error) => {
+    bomStrippedStream.destroy(error);
+  });
+
+  return readStream.pipe(bomStrippedStream);
+}
+
+/*
+ * Yields the entries of a zipfile opened with `lazyEntries`, errors of yauzl
+ * are thrown as `InvalidZipFileError` like in `getFiles()`.
+ */
+async function* readEntries(zipfile: ZipFile): AsyncGenerator<Entry> {
+  try {
+    yield* zipfile.eachEntry();
+  } catch (error) {
+    throw new InvalidZipFileError((error as Error).message);
+  }
+}
+
+// Tells what to do when a check finds a suspicious entry: nothing, keep track
+// of the entry on the instance or reject with an error.
+export type EntryCheckPolicy = 'ignore' | 'report' | 'reject';
+
+export type UnsafeEntry = { path: string; reason: UnsafePathReason };
+
+export type CollidingEntry = { path: string; collidesWith: string };
+
+// The order of the files: `archive` is the order of the central directory and
+// `sorted` is the lexicographic order of the paths.
+export type FileOrder = 'archive' | 'sorted';
+
+export type ExtractOptions = {
+  // `preserve` keeps the permission bits of the entries made on unix (without
+  // the setuid, setgid and sticky bits), `normalize` makes all the files
+  // readable and writable by their owner and only readable by the others.
+  permissions?: 'preserve' | 'normalize';
+};
+
+const NORMALIZED_FILE_MODE = 0o644;
+
+// What the checks of the entries have found so far while reading the entries
+// of a package. `getFiles()` keeps it on the instance, `iterateFiles()` has
+// its own for each iteration.
+export type EntryInspection = {
+  collidingEntries: CollidingEntry[];
+  encryptedEntries: string[];
+  entryCount: number;
+  // Maps the case-folded NFC form of each entry name to the first entry name
+  // with this form.
+  normalizedEntryNames: Map<string, string>;
+  totalUncompressedSize: number;
+  unsafeEntries: UnsafeEntry[];
+};
+
+function createEntryInspection(): EntryInspection {
+  return {
+    collidingEntries: [],
+    encryptedEntries: [],
+    entryCount: 0,
+    normalizedEntryNames: new Map(),
+    totalUncompressedSize: 0,
+    unsafeEntries: [],
+  };
+}
+
+export type XpiConstructorParams = IOBaseConstructorParams & {
   autoClose?: boolean;
+  // What to do with entries whose names only differ by case or Unicode
+  // normalization from the name of another entry.
+  collisions?: EntryCheckPolicy;
+  // When enabled, `getFiles()` also reads the archive sequentially to find
+  // entries that are not in the central directory, see `deepScanResult`.
+  deepScan?: boolean;
+  fileOrder?: FileOrder;
+  // The maximum number of entries (files and directories) in the package.
+  maxEntries?: number;
+  // The maximum sum of the (declared) uncompressed sizes of all the entries.
+  maxTotalSizeBytes?: number;
+  // The maximum ratio between the uncompressed and compressed sizes of a
+  // single entry.
+  maxCompressionRatio?: number;
+  // What to do with entries whose paths are unsafe to extract, see
+  // `getUnsafePathReason()`.
+  unsafePaths?: EntryCheckPolicy;
   zipLib?: typeof yauzl;
 };
 
@@ -27,65 +169,288 @@ type XpiConstructorParams = IOBaseConstructorParams & {
 export class Xpi extends IOBase {
   autoClose: boolean;
 
+  collidingEntries: CollidingEntry[];
+
+  collisions: EntryCheckPolicy;
+
+  deepScan: boolean;
+
+  deepScanResult: DeepScanResult | null;
+
+  encryptedEntries: string[];
+
+  entryCount: number;
+
+  fileOrder: FileOrder;
+
   files: Files;
 
+  // The promise of the `getFiles()` call reading the entries, which is
+  // shared with the calls made before it settles.
+  filesPromise: Promise<Files> | null;
+
+  maxCompressionRatio: number;
+
+  maxEntries: number;
+
+  maxTotalSizeBytes: number;
+
+  normalizedEntryNames: Map<string, string>;
+
   processed: boolean;
 
+  // The error the package has been rejected with, which is thrown again by
+  // the next calls instead of returning the entries accepted before it.
+  processingError: Error | null;
+
+  totalUncompressedSize: number;
+
+  unsafeEntries: UnsafeEntry[];
+
+  unsafePaths: EntryCheckPolicy;
+
   zipLib: typeof yauzl;
 
   zipfile: ZipFile | undefined;
 
   constructor({
     autoClose = true,
+    collisions = 'ignore',
+    deepScan = false,
+    fileOrder = 'archive',
     filePath,
+    maxCompressionRatio = Infinity,
+    maxEntries = Infinity,
+    maxTotalSizeBytes = Infinity,
     stderr,
+    unsafePaths = 'ignore',
     zipLib = yauzl,
   }: XpiConstructorParams) {
     super({ filePath, stderr });
 
     this.autoClose = autoClose;
+    this.fileOrder = fileOrder;
     this.files = {};
+    this.filesPromise = null;
     this.processed = false;
+    this.processingError = null;
+    // These budgets are disabled by default. They are checked against all the
+    // entries of the package, including the ones that are not scanned, in
+    // order to detect zip bombs.
+    this.maxCompressionRatio = maxCompressionRatio;
+    this.maxEntries = maxEntries;
+    this.maxTotalSizeBytes = maxTotalSizeBytes;
+    this.entryCount = 0;
+    this.totalUncompressedSize = 0;
+    this.unsafePaths = unsafePaths;
+    this.unsafeEntries = [];
+    this.collisions = collisions;
+    this.collidingEntries = [];
+    this.encryptedEntries = [];
+    // Maps the case-folded NFC form of each entry name to the first entry
+    // name with this form.
+    this.normalizedEntryNames = new Map();
+    this.deepScan = deepScan;
+    this.deepScanResult = null;
     this.zipLib = zipLib;
   }
 
-  open(): Promise<ZipFile> {
+  async open(): Promise<ZipFile> {
+    // When we disable the autoclose feature, we can reuse the same file
+    // descriptor instead of creating new ones, but only if we have opened
+    // the file once and the descriptor is still open.
+    if (!this.autoClose && this.zipfile && this.zipfile.isOpen) {
+      return this.zipfile;
+    }
+
+    const zipfile = await this.openZipFile(this.getZipOptions());
+    this.zipfile = zipfile;
+
+    return zipfile;
+  }
+
+  /*
+   * Opens the ZIP file with some yauzl options. Subclasses reading the ZIP
+   * data from somewhere else than `path` override this method.
+   */
+  openZipFile(options: yauzl.Options): Promise<ZipFile> {
     return new Promise((resolve, reject) => {
-      // When we disable the autoclose feature, we can reuse the same file
-      // descriptor instead of creating new ones, but only if we have opened
-      // the file once and the descriptor is still open.
-      if (!this.autoClose && this.zipfile && this.zipfile.isOpen) {
-        resolve(this.zipfile);
-        return;
+      this.zipLib.open(this.path, options, (err, zipfile) => {
+        if (err) {
+          return reject(err);
+        }
+
+        return resolve(zipfile as ZipFile);
+      });
+    });
+  }
+
+  getZipOptions(): yauzl.Options {
+    return {
+      autoClose: this.autoClose,
+      // Enable checks on invalid chars in zip entries filenames.
+      strictFileNames: true,
+      // Decode automatically filenames and zip entries content from buffer into strings
+      // and autodetects their encoding.
+      //
+      // NOTE: this is also mandatory because without this option set to true
+      // strictFileNames option is ignored.
+      decodeStrings: true,
+    };
+  }
+
+  /*
+   * Returns the options of a zipfile that has to be closed explicitly and
+   * whose entries are read with `eachEntry()`.
+   */
+  getLazyZipOptions(): yauzl.Options {
+    return { ...this.getZipOptions(), autoClose: false, lazyEntries: true };
+  }
+
+  checkBudgets(
+    entry: Entry,
+    inspection: EntryInspection = this,
+  ): ZipBombError | null {
+    /* eslint-disable no-param-reassign */
+    inspection.entryCount += 1;
+    inspection.totalUncompressedSize += entry.uncompressedSize;
+    /* eslint-enable no-param-reassign */
+
+    if (inspection.entryCount > this.maxEntries) {
+      return new ZipBombError(oneLine`Package contains more than
+        ${this.maxEntries} entries`);
+    }
+
+    if (inspection.totalUncompressedSize > this.maxTotalSizeBytes) {
+      return new ZipBombError(oneLine`Package exceeds the maximum total
+        uncompressed size of ${this.maxTotalSizeBytes} bytes`);
+    }
+
+    if (entry.uncompressedSize > 0) {
+      // A compressed size of 0 for a non-empty entry makes the ratio infinite.
+      const ratio = entry.uncompressedSize / entry.compressedSize;
+
+      if (ratio > this.maxCompressionRatio) {
+        return new ZipBombError(oneLine`Entry "${entry.fileName}" has a
+          compression ratio above ${this.maxCompressionRatio}`);
       }
+    }
 
-      this.zipLib.open(
-        this.path,
-        {
-          autoClose: this.autoClose,
-          // Enable checks on invalid chars in zip entries filenames.
-          strictFileNames: true,
-          // Decode automatically filenames and zip entries content from buffer into strings
-          // and autodetects their encoding.
-          //
-          // NOTE: this is also mandatory because without this option set to true
-          // strictFileNames option is ignored.
-          decodeStrings: true,
-        },
-        (err, zipfile) => {
-          if (err) {
-            return reject(err);
-          }
+    return null;
+  }
 
-          this.zipfile = zipfile;
+  checkEntryPath(
+    entry: Entry,
+    inspection: EntryInspection = this,
+  ): UnsafeZipEntryError | null {
+    if (this.unsafePaths === 'ignore') {
+      return null;
+    }
 
-          return resolve(zipfile as ZipFile);
-        },
+    // Directory entries end with a slash, which is not a concern here.
+    const reason = getUnsafePathReason(entry.fileName.replace(/\/$/, ''));
+    if (!reason) {
+      return null;
+    }
+
+    this.stderr.info(oneLine`found unsafe entry path: "${entry.fileName}"
+      (${reason})`);
+
+    if (this.unsafePaths === 'reject') {
+      return new UnsafeZipEntryError(
+        `Entry "${entry.fileName}" has an unsafe path (${reason})`,
+        { path: entry.fileName, reason },
       );
-    });
+    }
+
+    inspection.unsafeEntries.push({ path: entry.fileName, reason });
+    return null;
+  }
+
+  checkEntryNameCollision(
+    entry: Entry,
+    inspection: EntryInspection = this,
+  ): EntryNameCollisionError | null {
+    if (this.collisions === 'ignore') {
+      return null;
+    }
+
+    // Names that only differ by case or Unicode normalization are the same
+    // file on case-insensitive or normalization-insensitive file systems
+    // (e.g. on macOS and Windows).
+    const normalizedName = entry.fileName.normalize('NFC').toLowerCase();
+    const collidesWith = inspection.normalizedEntryNames.get(normalizedName);
+
+    if (collidesWith === undefined) {
+      inspection.normalizedEntryNames.set(normalizedName, entry.fileName);
+      return null;
+    }
+
+    // Exact duplicates are handled in `handleEntry()`.
+    if (collidesWith === entry.fileName) {
+      return null;
+    }
+
+    this.stderr.info(oneLine`found colliding entry names: "${entry.fileName}"
+      and "${collidesWith}"`);
+
+    if (this.collisions === 'reject') {
+      return new EntryNameCollisionError(
+        `Entry "${entry.fileName}" collides with "${collidesWith}"`,
+        { path: entry.fileName, collidesWith },
+      );
+    }
+
+    inspection.collidingEntries.push({ path: entry.fileName, collidesWith });
+    return null;
+  }
+
+  /*
+   * Runs the checks applied to all the entries of the package (including the
+   * directories and the files that are not scanned) and returns the error the
+   * package should be rejected with, if any. What is found is kept in
+   * `inspection`, which defaults to the instance.
+   */
+  inspectEntry(entry: Entry, inspection: EntryInspection = this): Error | null {
+    const budgetError = this.checkBudgets(entry, inspection);
+    if (budgetError) {
+      this.stderr.info(budgetError.message);
+      return budgetError;
+    }
+
+    const error =
+      this.checkEntryPath(entry, inspection) ??
+      this.checkEntryNameCollision(entry, inspection);
+    if (error) {
+      return error;
+    }
+
+    // Encrypted entries cannot be read, which is why we keep track of all of
+    // them, including the ones that are not scanned.
+    if (
+      !/\/$/.test(entry.fileName) &&
+      isEncrypted(entry.generalPurposeBitFlag)
+    ) {
+      this.stderr.info(`found encrypted entry: "${entry.fileName}"`);
+      inspection.encryptedEntries.push(entry.fileName);
+    }
+
+    return null;
   }
 
   handleEntry(entry: Entry, reject: (error: Error) => void) {
+    // yauzl keeps emitting entries after a rejection, which we do not want to
+    // check (and log) again.
+    if (this.processingError) {
+      return;
+    }
+
+    const error = this.inspectEntry(entry);
+    if (error) {
+      reject(error);
+      return;
+    }
+
     if (/\/$/.test(entry.fileName)) {
       return;
     }
@@ -122,9 +487,33 @@ export class Xpi extends IOBase {
       return wantedFiles;
     }
 
+    if (this.processingError) {
+      throw this.processingError;
+    }
+
+    // The entries are only read once, concurrent calls would otherwise check
+    // them against each other.
+    if (!this.filesPromise) {
+      this.filesPromise = this.readFiles(_onEventsSubscribed).finally(() => {
+        this.filesPromise = null;
+      });
+    }
+
+    return this.filesPromise;
+  }
+
+  async readFiles(_onEventsSubscribed?: () => void): Promise<Files> {
     const zipfile = await this.open();
 
-    return new Promise((resolve, reject) => {
+    return new Promise((resolve, _reject) => {
+      const reject = (error: Error) => {
+        // Only the first error is kept, yauzl may still report other ones.
+        if (!this.processingError) {
+          this.processingError = error;
+        }
+        _reject(error);
+      };
+
       zipfile.on('error', (err: Error) => {
         reject(new InvalidZipFileError(err.message));
       });
@@ -142,8 +531,30 @@ export class Xpi extends IOBase {
       //
       // See: https://github.com/mozilla/addons-linter/pull/43
       zipfile.on('end', () => {
-        this.processed = true;
-        resolve(this.files);
+        if (this.processingError) {
+          _reject(this.processingError);
+          return;
+        }
+
+        if (this.fileOrder === 'sorted') {
+          this.entries.sort(compareFilePaths);
+          this.files = sortFiles(this.files);
+        }
+
+        if (!this.deepScan) {
+          this.processed = true;
+          resolve(this.files);
+          return;
+        }
+
+        // The package is only processed once the deep scan has succeeded,
+        // otherwise the next calls would return the files without its result.
+        this.getDeepScanResult()
+          .then(() => {
+            this.processed = true;
+            resolve(this.files);
+          })
+          .catch(reject);
       });
 
       if (_onEventsSubscribed) {
@@ -158,49 +569,236 @@ export class Xpi extends IOBase {
 
   checkPath(path: string) {
     if (!Object.prototype.hasOwnProperty.call(this.files, path)) {
-      throw new Error(`Path "${path}" does not exist in this XPI`);
+      throw new FileNotFoundInPackageError(
+        `Path "${path}" does not exist in this XPI`,
+        { path },
+      );
     }
 
-    if (this.files[path].uncompressedSize > this.maxSizeBytes) {
-      throw new Error(`File "${path}" is too large. Aborting.`);
+    this.checkEntry(path, this.files[path]);
+  }
+
+  /*
+   * Throws when the content of an entry cannot be read.
+   */
+  checkEntry(path: string, entry: Entry) {
+    if (isEncrypted(entry.generalPurposeBitFlag)) {
+      throw new EncryptedZipEntryError(`Entry "${path}" is encrypted`, {
+        path,
+      });
+    }
+
+    const size = entry.uncompressedSize;
+    if (size > this.maxSizeBytes) {
+      throw new FileTooLargeError(`File "${path}" is too large. Aborting.`, {
+        path,
+        size,
+        limit: this.maxSizeBytes,
+      });
     }
   }
 
   async getFileAsStream(path: string): Promise<Readable> {
+    const rawStream = await this.getFileAsRawStream(path);
+
+    return stripBOM(rawStream);
+  }
+
+  async getFileAsRawStream(path: string): Promise<Readable> {
     this.checkPath(path);
     const zipfile = await this.open();
 
+    return this.openEntryStream(zipfile, path, this.files[path]);
+  }
+
+  openEntryStream(
+    zipfile: ZipFile,
+    path: string,
+    entry: Entry,
+  ): Promise<Readable> {
     return new Promise((resolve, reject) => {
-      zipfile.openReadStream(this.files[path], (err, readStream) => {
+      zipfile.openReadStream(entry, (err, readStream) => {
         if (err) {
           return reject(err);
         }
         if (!readStream) {
           return reject(new Error('readStream is falsey'));
         }
-        return resolve(readStream.pipe(stripBomStream()));
+
+        return resolve(
+          this.limitEntryStream(path, readStream, entry.uncompressedSize),
+        );
       });
     });
   }
 
-  async getFileAsString(path: string): Promise<string> {
-    const fileStream = await this.getFileAsStream(path);
+  /*
+   * The declared size of an entry cannot be trusted so we count the bytes
+   * while decompressing and abort as soon as the entry exceeds its declared
+   * size. Since `checkEntry()` rejects entries declaring more than
+   * `maxSizeBytes`, this also enforces the maximum size. Errors of
+   * `readStream` are forwarded to the returned stream.
+   */
+  limitEntryStream(
+    path: string,
+    readStream: Readable,
+    limit: number,
+  ): Readable {
+    const createError = () => {
+      return new EntrySizeExceededError(
+        `Entry "${path}" exceeds its declared size of ${limit} bytes`,
+        { path, limit },
+      );
+    };
 
-    return new Promise((resolve, reject) => {
-      const chunks: Uint8Array[] = [];
-      fileStream.on('data', (chunk: Uint8Array) => {
-        chunks.push(chunk);
-      });
+    const sizeLimitStream = createSizeLimitStream(limit, createError);
 
-      // Once the file is assembled, resolve the promise.
-      fileStream.on('end', () => {
-        const buf = Buffer.concat(chunks);
-        const fileString = buf.toString('utf8');
-        resolve(fileString);
-      });
-
-      fileStream.on('error', reject);
+    readStream.on('error', (error: Error) => {
+      // yauzl also validates the entry sizes, in which case we want to
+      // surface our own error instead.
+      sizeLimitStream.destroy(
+        /^too many bytes in the stream/.test(error.message)
+          ? createError()
+          : error,
+      );
+    });
+    // Stop reading the entry when the returned stream is closed early, i.e.
+    // on error or when it is destroyed by the consumer.
+    sizeLimitStream.on('close', () => {
+      readStream.unpipe(sizeLimitStream);
+      readStream.destroy();
     });
+
+    return readStream.pipe(sizeLimitStream);
+  }
+
+  async getFileAsString(
+    path: string,
+    options?: DecodeBufferOptions,
+  ): Promise<string> {
+    const { content } = await this.getFileAsText(path, options);
+
+    return content;
+  }
+
+  async getFileInfo(path: string): Promise<FileInfo> {
+    if (!Object.prototype.hasOwnProperty.call(this.files, path)) {
+      throw new FileNotFoundInPackageError(
+        `Path "${path}" does not exist in this XPI`,
+        { path },
+      );
+    }
+
+    return createFileInfo(path, this.files[path]);
+  }
+
+  /*
+   * Unlike `getFiles()`, this reads the entries one at a time without
+   * keeping them in `files`. The entries go through the same checks as in
+   * `getFiles()` (unless the package has already been processed), but what
+   * they find is only kept for the iteration: an iteration does not change
+   * the reported entries, the budgets nor the result of `getFiles()`.
+   * Reading a file is still subject to the size limits.
+   */
+  async *iterateFiles({
+    filter = () => true,
+  }: IterateFilesOptions = {}): AsyncGenerator<PackageFile> {
+    if (this.processingError) {
+      throw this.processingError;
+    }
+
+    // The checks have already been done by `getFiles()` otherwise.
+    const inspection = this.processed ? null : createEntryInspection();
+
+    const inspectEntry = (entry: Entry) => {
+      const error = inspection ? this.inspectEntry(entry, inspection) : null;
+      if (error) {
+        throw error;
+      }
+    };
+
+    // We need our own zipfile to read the entries lazily. It is closed when
+    // the iteration ends, including when the consumer exits early.
+    const zipfile = await this.openZipFile(this.getLazyZipOptions());
+
+    try {
+      let entries: AsyncIterable<Entry> | Entry[] = readEntries(zipfile);
+
+      // The whole central directory has to be read to sort the entries, which
+      // does not read the content of the files.
+      if (this.fileOrder === 'sorted') {
+        const allEntries: Entry[] = [];
+        for await (const entry of entries) {
+          inspectEntry(entry);
+          allEntries.push(entry);
+        }
+        entries = allEntries.sort((a, b) =>
+          compareFilePaths(a.fileName, b.fileName),
+        );
+      }
+
+      const seenPaths = new Set<string>();
+
+      for await (const entry of entries) {
+        const path = entry.fileName;
+
+        if (this.fileOrder !== 'sorted') {
+          inspectEntry(entry);
+        }
+
+        if (/\/$/.test(path)) {
+          this.stderr.debug(`skipping directory: ${path}`);
+        } else if (!this.shouldScanFile(path, false)) {
+          this.stderr.debug(`skipping file: ${path}`);
+        } else {
+          if (seenPaths.has(path)) {
+            this.stderr.info(oneLine`found duplicate file entry: "${path}"
+              in package`);
+
+            throw new DuplicateZipEntryError(oneLine`Entry "${path}" has
+              already been seen`);
+          }
+          seenPaths.add(path);
+
+          const info = createFileInfo(path, entry);
+
+          if (filter(info)) {
+            const getRawStream = async () => {
+              this.checkEntry(path, entry);
+
+              if (zipfile.isOpen) {
+                return this.openEntryStream(zipfile, path, entry);
+              }
+
+              // The iteration has ended, so we open the package again to read
+              // this entry. The stream keeps the new zipfile open until it
+              // ends.
+              const entryZipfile = await this.openZipFile(
+                this.getLazyZipOptions(),
+              );
+              try {
+                return await this.openEntryStream(entryZipfile, path, entry);
+              } finally {
+                entryZipfile.close();
+              }
+            };
+
+            yield {
+              info,
+              buffer: async () => readBufferFromStream(await getRawStream()),
+              stream: async () => stripBOM(await getRawStream()),
+              text: async (options) => {
+                const buffer = await readBufferFromStream(await getRawStream());
+
+                return decodeBuffer(buffer, options).content;
+              },
+            };
+          }
+        }
+      }
+    } finally {
+      zipfile.close();
+    }
   }
 
   async getChunkAsBuffer(path: string, chunkLength: number): Promise<Buffer> {
@@ -227,6 +825,165 @@ export class Xpi extends IOBase {
     });
   }
 
+  /*
+   * Stored entries are read from the archive at the right position, other
+   * entries have to be decompressed up to the end of the range.
+   */
+  async getRangeAsBuffer(
+    path: string,
+    offset: number,
+    length: number,
+  ): Promise<Buffer> {
+    checkRange(offset, length);
+    this.checkPath(path);
+
+    const entry = this.files[path];
+    if (entry.compressionMethod !== NO_COMPRESSION) {
+      return super.getRangeAsBuffer(path, offset, length);
+    }
+
+    const start = Math.min(offset, entry.compressedSize);
+    const end = Math.min(offset + length, entry.compressedSize);
+    if (start === end) {
+      return Buffer.alloc(0);
+    }
+
+    const zipfile = await this.open();
+
+    return new Promise((resolve, reject) => {
+      zipfile.openReadStream(entry, { start, end }, (err, readStream) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+
+        if (!readStream) {
+          reject(new Error('readStream is falsey'));
+          return;
+        }
+
+        readRangeFromStream(readStream, 0, end - start).then(resolve, reject);
+      });
+    });
+  }
+
+  /*
+   * Returns the raw bytes of the ZIP archive.
+   */
+  readArchive(): Promise<Buffer> {
+    return fsPromises.readFile(this.path);
+  }
+
+  /*
+   * Returns the structural oddities of the ZIP archive (e.g. data prepended
+   * to it or mismatching headers), which can be a sign of tampering.
+   */
+  async getArchiveReport(): Promise<ArchiveReport> {
+    const buffer = await this.readArchive();
+
+    return createArchiveReport(buffer);
+  }
+
+  /*
+   * Reads the archive sequentially to find entries hidden outside of the
+   * central directory and entries whose data overlap. The result is also
+   * stored in `deepScanResult`.
+   */
+  async getDeepScanResult(): Promise<DeepScanResult> {
+    const buffer = await this.readArchive();
+    const result = createDeepScanResult(buffer);
+
+    result.hiddenEntries.forEach(({ path, offset }) => {
+      this.stderr.info(oneLine`found entry "${path}" at offset ${offset}
+        outside of the central directory`);
+    });
+    result.overlappingEntries.forEach(({ path, overlapsWith }) => {
+      this.stderr.info(oneLine`found entry "${path}" overlapping with
+        "${overlapsWith}"`);
+    });
+
+    this.deepScanResult = result;
+
+    return result;
+  }
+
+  invalidate() {
+    super.invalidate();
+
+    this.processed = false;
+    this.processingError = null;
+    this.filesPromise = null;
+    Object.assign(this, createEntryInspection());
+    this.deepScanResult = null;
+
+    // The zipfile has to be opened again to read the new content, even when
+    // it is kept open.
+    if (this.zipfile) {
+      this.zipfile.close();
+      this.zipfile = undefined;
+    }
+  }
+
+  /*
+   * Writes the exact bytes of the files of the package to `destDir` and
+   * returns a `Directory` for the result. Like `getFiles()`, only the files
+   * accepted by the `shouldScanFile` callback are written (the entries that
+   * are not scanned are still checked). Files with an unsafe path are
+   * always rejected and existing files are never overwritten. The budgets of
+   * the package and the size limits are enforced while extracting, which may
+   * leave `destDir` partially extracted when an error is thrown.
+   */
+  async extractTo(
+    destDir: string,
+    { permissions = 'normalize' }: ExtractOptions = {},
+  ): Promise<Directory> {
+    const files = await this.getFiles();
+    const absoluteDestDir = nodePath.resolve(destDir);
+
+    for (const path of Object.keys(files)) {
+      const entry = files[path];
+      const filePath = nodePath.resolve(absoluteDestDir, path);
+      // Checking that the file is inside `destDir` is belt and braces since
+      // safe paths cannot escape it.
+      const reason =
+        getUnsafePathReason(path) ??
+        (filePath.startsWith(`${absoluteDestDir}${nodePath.sep}`)
+          ? null
+          : 'parent-directory');
+
+      if (reason) {
+        throw new UnsafeZipEntryError(
+          `Entry "${path}" has an unsafe path (${reason})`,
+          { path, reason },
+        );
+      }
+
+      const mode = getUnixMode(
+        entry.versionMadeBy,
+        entry.externalFileAttributes,
+      );
+      const fileMode =
+        permissions === 'preserve' && mode !== null
+          ? getPermissionBits(mode)
+          : NORMALIZED_FILE_MODE;
+
+      this.stderr.debug(`extracting "${path}" to "${filePath}"`);
+
+      await fsPromises.mkdir(nodePath.dirname(filePath), { recursive: true });
+      await pipeline(
+        await this.getFileAsRawStream(path),
+        // `wx` fails when the file already exists, e.g. because of another
+        // entry whose name only differs by case on a case-insensitive file
+        // system.
+        createWriteStream(filePath, { flags: 'wx' }),
+      );
+      // The mode passed when creating the file would be altered by the umask.
+      await fsPromises.chmod(filePath, fileMode);
+    }
+
+    return new Directory({ filePath: destDir, stderr: this.stderr });
+  }
+
   close() {
     if (this.autoClose) {
       return;
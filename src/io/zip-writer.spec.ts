@@ -0,0 +1,192 @@
+import { Directory } from './directory';
+import { DEFLATE_COMPRESSION, NO_COMPRESSION } from './const';
+import { InMemoryXpi } from './in-memory-xpi';
+import { createArchiveReport } from './zip';
+import {
+  DEFAULT_ZIP_DATE,
+  createZipFromFiles,
+  createZipFromPackage,
+} from './zip-writer';
+import { UnsafeZipEntryError } from '../errors';
+import { createFakeStderr } from '../test-helpers';
+
+describe(__filename, () => {
+  const readZip = (buffer: Buffer) => {
+    return new InMemoryXpi({ buffer, stderr: createFakeStderr() });
+  };
+
+  describe('createZipFromFiles()', () => {
+    it('creates a ZIP file with the exact content of the files', async () => {
+      const xpi = readZip(
+        createZipFromFiles({
+          'manifest.json': Buffer.from('\ufeff{}'),
+          'lib/main.js': 'main("é")',
+        }),
+      );
+      await xpi.getFiles();
+
+      await expect(xpi.getFileAsBuffer('manifest.json')).resolves.toEqual(
+        Buffer.from('\ufeff{}'),
+      );
+      await expect(xpi.getFileAsString('lib/main.js')).resolves.toEqual(
+        'main("é")',
+      );
+    });
+
+    it('sorts the entries by path', async () => {
+      const xpi = readZip(
+        createZipFromFiles({ 'b.js': '', 'a/c.js': '', 'a.js': '' }),
+      );
+
+      const files = await xpi.getFiles();
+
+      expect(Object.keys(files)).toEqual(['a.js', 'a/c.js', 'b.js']);
+    });
+
+    it('creates the same bytes for the same files', () => {
+      const content = 'some content '.repeat(10);
+
+      const buffer = createZipFromFiles({ 'a.js': content, 'b.js': content });
+
+      expect(createZipFromFiles({ 'b.js': content, 'a.js': content })).toEqual(
+        buffer,
+      );
+    });
+
+    it('deflates the entries by default', async () => {
+      const xpi = readZip(createZipFromFiles({ 'a.js': 'a'.repeat(100) }));
+      await xpi.getFiles();
+
+      const info = await xpi.getFileInfo('a.js');
+
+      expect(info.compressionMethod).toEqual(DEFLATE_COMPRESSION);
+      expect(info.compressedSize).toBeLessThan(100);
+    });
+
+    it('can choose the compression method of each entry', async () => {
+      const xpi = readZip(
+        createZipFromFiles(
+          { 'a.js': 'a'.repeat(100), 'b.png': 'b'.repeat(100) },
+          {
+            compressionMethod: (path) =>
+              path.endsWith('.png') ? NO_COMPRESSION : DEFLATE_COMPRESSION,
+          },
+        ),
+      );
+
+      const infos = await xpi.getFileInfos();
+
+      expect(infos.map((info) => info.compressionMethod)).toEqual([
+        DEFLATE_COMPRESSION,
+        NO_COMPRESSION,
+      ]);
+      await expect(xpi.getFileAsString('b.png')).resolves.toEqual(
+        'b'.repeat(100),
+      );
+    });
+
+    it('uses a fixed date by default', async () => {
+      const xpi = readZip(createZipFromFiles({ 'a.js': '' }));
+      await xpi.getFiles();
+
+      const info = await xpi.getFileInfo('a.js');
+
+      expect(info.lastModified).toEqual(DEFAULT_ZIP_DATE);
+    });
+
+    it('accepts a date for the entries', async () => {
+      const lastModified = new Date(2020, 4, 17, 13, 37, 42);
+      const xpi = readZip(createZipFromFiles({ 'a.js': '' }, { lastModified }));
+      await xpi.getFiles();
+
+      const info = await xpi.getFileInfo('a.js');
+
+      expect(info.lastModified).toEqual(lastModified);
+    });
+
+    it('rejects a date that cannot be stored', () => {
+      expect(() =>
+        createZipFromFiles(
+          { 'a.js': '' },
+          { lastModified: new Date(Date.UTC(1970, 5, 1)) },
+        ),
+      ).toThrow('Expected a date between 1980 and 2107');
+    });
+
+    it('rejects unsafe paths', () => {
+      expect(() => createZipFromFiles({ '../a.js': '' })).toThrow(
+        UnsafeZipEntryError,
+      );
+    });
+
+    it('rejects an unknown compression method', () => {
+      expect(() =>
+        // @ts-expect-error: this is not a supported compression method.
+        createZipFromFiles({ 'a.js': '' }, { compressionMethod: 12 }),
+      ).toThrow('Unexpected compression method "12" for entry "a.js"');
+    });
+
+    it('creates a ZIP file without structural issues', () => {
+      const report = createArchiveReport(
+        createZipFromFiles({ 'a.js': 'a', 'b/c.js': 'c' }),
+      );
+
+      expect(report).toEqual(
+        expect.objectContaining({
+          entryCount: 2,
+          prependedBytes: 0,
+          trailingBytes: 0,
+        }),
+      );
+    });
+
+    it('creates an empty ZIP file', async () => {
+      const xpi = readZip(createZipFromFiles({}));
+
+      await expect(xpi.getFiles()).resolves.toEqual({});
+    });
+  });
+
+  describe('createZipFromPackage()', () => {
+    it('creates a ZIP file from a directory', async () => {
+      const directory = new Directory({
+        filePath: 'src/tests/fixtures/io/dir2/',
+        stderr: createFakeStderr(),
+      });
+
+      const xpi = readZip(await createZipFromPackage(directory));
+
+      expect(Object.keys(await xpi.getFiles())).toEqual([
+        'dir3/file.png',
+        'dir3/file3.txt',
+        'file2.txt',
+      ]);
+      await expect(xpi.getFileAsBuffer('dir3/file.png')).resolves.toEqual(
+        await directory.getFileAsBuffer('dir3/file.png'),
+      );
+    });
+
+    it('only includes the scanned files', async () => {
+      const directory = new Directory({
+        filePath: 'src/tests/fixtures/io/dir2/',
+        stderr: createFakeStderr(),
+      });
+      directory.setScanFileCallback((path) => path !== 'file2.txt');
+
+      const xpi = readZip(await createZipFromPackage(directory));
+
+      expect(Object.keys(await xpi.getFiles())).toEqual([
+        'dir3/file.png',
+        'dir3/file3.txt',
+      ]);
+    });
+
+    it('creates the same ZIP file from another package', async () => {
+      const buffer = createZipFromFiles({ 'a.js': 'a', 'b/c.js': 'c' });
+
+      await expect(createZipFromPackage(readZip(buffer))).resolves.toEqual(
+        buffer,
+      );
+    });
+  });
+});
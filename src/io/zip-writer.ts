@@ -0,0 +1,183 @@
+import { crc32, deflateRawSync } from 'zlib';
+
+import { oneLine } from 'common-tags';
+
+import { IOBase } from './base';
+import { DEFLATE_COMPRESSION, NO_COMPRESSION } from './const';
+import { compareFilePaths, getUnsafePathReason } from './utils';
+import {
+  CENTRAL_DIRECTORY_HEADER_LENGTH,
+  CENTRAL_DIRECTORY_HEADER_SIGNATURE,
+  END_OF_CENTRAL_DIRECTORY_LENGTH,
+  END_OF_CENTRAL_DIRECTORY_SIGNATURE,
+  LOCAL_FILE_HEADER_LENGTH,
+  LOCAL_FILE_HEADER_SIGNATURE,
+  UTF8_FLAG,
+} from './zip';
+import { UnsafeZipEntryError } from '../errors';
+
+// This module writes ZIP files without any of the Zip64 extensions, which is
+// more than enough for add-ons.
+
+// The version of the ZIP specification needed to extract a deflated entry.
+const ZIP_VERSION = 20;
+const MAX_ENTRIES = 0xffff;
+const MAX_OFFSET = 0xffffffff;
+
+// The earliest date that can be stored in a ZIP file, used by default so that
+// the output does not depend on when it is created.
+export const DEFAULT_ZIP_DATE = new Date(1980, 0, 1);
+
+export type ZipCompressionMethod =
+  typeof DEFLATE_COMPRESSION | typeof NO_COMPRESSION;
+
+// Maps the paths of the files to their content, strings being encoded in
+// UTF-8.
+export type ZipFileMap = Record<string, Buffer | string>;
+
+export type CreateZipOptions = {
+  // The compression method of all the entries, or a function returning the
+  // compression method of a given entry.
+  compressionMethod?:
+    ZipCompressionMethod | ((path: string) => ZipCompressionMethod);
+  // The modification date of all the entries. Like in any ZIP file, it is
+  // stored without a time zone (i.e. in local time) and with a 2 seconds
+  // precision.
+  lastModified?: Date;
+};
+
+/*
+ * Returns the MS-DOS time and date of `date`, as stored in ZIP headers.
+ */
+function getDosDateTime(date: Date) {
+  const year = date.getFullYear();
+
+  if (year < 1980 || year > 2107) {
+    throw new RangeError(oneLine`Expected a date between 1980 and 2107, got
+      ${date.toISOString()}`);
+  }
+
+  return {
+    time:
+      date.getHours() * 2048 +
+      date.getMinutes() * 32 +
+      Math.floor(date.getSeconds() / 2),
+    date: (year - 1980) * 512 + (date.getMonth() + 1) * 32 + date.getDate(),
+  };
+}
+
+/*
+ * Creates a ZIP file from a map of files. The entries are sorted by path and
+ * all share the same date so that the same files always give the same bytes
+ * (as long as the `zlib` version does not change for deflated entries).
+ */
+export function createZipFromFiles(
+  files: ZipFileMap,
+  {
+    compressionMethod = DEFLATE_COMPRESSION,
+    lastModified = DEFAULT_ZIP_DATE,
+  }: CreateZipOptions = {},
+): Buffer {
+  const paths = Object.keys(files).sort(compareFilePaths);
+
+  if (paths.length > MAX_ENTRIES) {
+    throw new Error(`Cannot write more than ${MAX_ENTRIES} entries`);
+  }
+
+  const dosDateTime = getDosDateTime(lastModified);
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  paths.forEach((path) => {
+    const reason = getUnsafePathReason(path);
+    if (reason) {
+      throw new UnsafeZipEntryError(
+        `Entry "${path}" has an unsafe path (${reason})`,
+        { path, reason },
+      );
+    }
+
+    const method =
+      typeof compressionMethod === 'function'
+        ? compressionMethod(path)
+        : compressionMethod;
+    if (method !== DEFLATE_COMPRESSION && method !== NO_COMPRESSION) {
+      throw new TypeError(oneLine`Unexpected compression method "${method}"
+        for entry "${path}"`);
+    }
+
+    const content = files[path];
+    const data = typeof content === 'string' ? Buffer.from(content) : content;
+    const compressedData =
+      method === DEFLATE_COMPRESSION ? deflateRawSync(data) : data;
+    const name = Buffer.from(path);
+    const checksum = crc32(data);
+
+    const localHeader = Buffer.alloc(LOCAL_FILE_HEADER_LENGTH);
+    localHeader.writeUInt32LE(LOCAL_FILE_HEADER_SIGNATURE, 0);
+    localHeader.writeUInt16LE(ZIP_VERSION, 4);
+    localHeader.writeUInt16LE(UTF8_FLAG, 6);
+    localHeader.writeUInt16LE(method, 8);
+    localHeader.writeUInt16LE(dosDateTime.time, 10);
+    localHeader.writeUInt16LE(dosDateTime.date, 12);
+    localHeader.writeUInt32LE(checksum, 14);
+    localHeader.writeUInt32LE(compressedData.length, 18);
+    localHeader.writeUInt32LE(data.length, 22);
+    localHeader.writeUInt16LE(name.length, 26);
+
+    const centralHeader = Buffer.alloc(CENTRAL_DIRECTORY_HEADER_LENGTH);
+    centralHeader.writeUInt32LE(CENTRAL_DIRECTORY_HEADER_SIGNATURE, 0);
+    centralHeader.writeUInt16LE(ZIP_VERSION, 4);
+    centralHeader.writeUInt16LE(ZIP_VERSION, 6);
+    centralHeader.writeUInt16LE(UTF8_FLAG, 8);
+    centralHeader.writeUInt16LE(method, 10);
+    centralHeader.writeUInt16LE(dosDateTime.time, 12);
+    centralHeader.writeUInt16LE(dosDateTime.date, 14);
+    centralHeader.writeUInt32LE(checksum, 16);
+    centralHeader.writeUInt32LE(compressedData.length, 20);
+    centralHeader.writeUInt32LE(data.length, 24);
+    centralHeader.writeUInt16LE(name.length, 28);
+    centralHeader.writeUInt32LE(offset, 42);
+
+    localParts.push(localHeader, name, compressedData);
+    centralParts.push(centralHeader, name);
+    offset += localHeader.length + name.length + compressedData.length;
+
+    if (offset > MAX_OFFSET) {
+      throw new Error(`Cannot write more than ${MAX_OFFSET} bytes`);
+    }
+  });
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const endOfCentralDirectory = Buffer.alloc(END_OF_CENTRAL_DIRECTORY_LENGTH);
+  endOfCentralDirectory.writeUInt32LE(END_OF_CENTRAL_DIRECTORY_SIGNATURE, 0);
+  endOfCentralDirectory.writeUInt16LE(paths.length, 8);
+  endOfCentralDirectory.writeUInt16LE(paths.length, 10);
+  endOfCentralDirectory.writeUInt32LE(centralDirectory.length, 12);
+  endOfCentralDirectory.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([
+    ...localParts,
+    centralDirectory,
+    endOfCentralDirectory,
+  ]);
+}
+
+/*
+ * Creates a ZIP file with the exact bytes of the files of a package, e.g. a
+ * `Directory`. Only the files accepted by its `shouldScanFile` callback are
+ * included.
+ */
+export async function createZipFromPackage(
+  io: IOBase,
+  options: CreateZipOptions = {},
+): Promise<Buffer> {
+  const files: ZipFileMap = {};
+
+  for (const path of Object.keys(await io.getFiles())) {
+    files[path] = await io.getFileAsBuffer(path);
+  }
+
+  return createZipFromFiles(files, options);
+}
@@ -0,0 +1,481 @@
+import fs from 'fs';
+
+import {
+  createArchiveReport,
+  createDeepScanResult,
+  getOffsetShift,
+  getUnixMode,
+  isEncrypted,
+  readCentralDirectory,
+  readEndOfCentralDirectory,
+  readLocalFileHeader,
+  scanLocalFileHeaders,
+} from './zip';
+import { DEFLATE_COMPRESSION } from './const';
+import { InvalidZipFileError } from '../errors';
+import { createZipBuffer } from '../test-helpers';
+
+describe(__filename, () => {
+  const fileEntry = { name: 'file.txt', data: Buffer.from('some content') };
+  const otherEntry = { name: 'other.txt', data: Buffer.from('other content') };
+
+  describe('isEncrypted()', () => {
+    it('returns true when the encryption flag is set', () => {
+      expect(isEncrypted(0x0001)).toEqual(true);
+      expect(isEncrypted(0x0809)).toEqual(true);
+    });
+
+    it('returns false when the encryption flag is not set', () => {
+      expect(isEncrypted(0)).toEqual(false);
+      expect(isEncrypted(0x0808)).toEqual(false);
+    });
+  });
+
+  describe('getUnixMode()', () => {
+    it('returns the mode of an entry created on unix', () => {
+      expect(getUnixMode(0x031e, 0o100644 * 0x10000)).toEqual(0o100644);
+    });
+
+    it('returns null for an entry created on another system', () => {
+      expect(getUnixMode(0x0014, 0o100644 * 0x10000)).toEqual(null);
+    });
+
+    it('returns null when the mode is not set', () => {
+      expect(getUnixMode(0x031e, 0)).toEqual(null);
+    });
+  });
+
+  describe('readEndOfCentralDirectory()', () => {
+    it('reads the end of central directory record', () => {
+      const buffer = createZipBuffer([fileEntry], { comment: 'hello' });
+
+      const eocd = readEndOfCentralDirectory(buffer);
+
+      expect(eocd.end).toEqual(buffer.length);
+      expect(eocd.offset).toEqual(buffer.length - 22 - 5);
+      expect(eocd.entryCount).toEqual(1);
+      expect(eocd.comment.toString()).toEqual('hello');
+      expect(eocd.zip64Offset).toEqual(null);
+      expect(getOffsetShift(eocd)).toEqual(0);
+    });
+
+    it('reads the Zip64 end of central directory record', () => {
+      const zipBuffer = createZipBuffer([fileEntry]);
+      const buffer = createZipBuffer([fileEntry], {
+        zip64EndOfCentralDirectory: true,
+      });
+
+      const eocd = readEndOfCentralDirectory(buffer);
+
+      expect(eocd.zip64Offset).toEqual(zipBuffer.length - 22);
+      expect(eocd.entryCount).toEqual(1);
+      expect(getOffsetShift(eocd)).toEqual(0);
+    });
+
+    it('finds the Zip64 record of an archive with prepended data', () => {
+      const zipBuffer = createZipBuffer([fileEntry]);
+      const buffer = Buffer.concat([
+        Buffer.from('#!/bin/sh\n'),
+        createZipBuffer([fileEntry], { zip64EndOfCentralDirectory: true }),
+      ]);
+
+      const eocd = readEndOfCentralDirectory(buffer);
+
+      expect(eocd.zip64Offset).toEqual(10 + zipBuffer.length - 22);
+      expect(getOffsetShift(eocd)).toEqual(10);
+    });
+
+    it('throws an InvalidZipFileError when the Zip64 record is missing', () => {
+      const buffer = createZipBuffer([fileEntry], {
+        zip64EndOfCentralDirectory: true,
+      });
+      const zip64Offset = buffer.length - 22 - 20 - 56;
+
+      expect(() =>
+        readEndOfCentralDirectory(
+          Buffer.concat([
+            buffer.subarray(0, zip64Offset),
+            Buffer.alloc(4),
+            buffer.subarray(zip64Offset + 4),
+          ]),
+        ),
+      ).toThrow('Invalid Zip64 end of central directory record');
+    });
+
+    it('throws an InvalidZipFileError when there is no record', () => {
+      expect(() => readEndOfCentralDirectory(Buffer.from('not a zip'))).toThrow(
+        InvalidZipFileError,
+      );
+    });
+  });
+
+  describe('readCentralDirectory()', () => {
+    it('returns the entries of the central directory', () => {
+      const buffer = createZipBuffer([fileEntry, otherEntry]);
+
+      const entries = readCentralDirectory(
+        buffer,
+        readEndOfCentralDirectory(buffer),
+      );
+
+      expect(entries.map((entry) => entry.fileName)).toEqual([
+        'file.txt',
+        'other.txt',
+      ]);
+      expect(entries[0]).toMatchObject({
+        compressedSize: 12,
+        localHeaderOffset: 0,
+        uncompressedSize: 12,
+        usesZip64: false,
+      });
+    });
+
+    it('reads the sizes from the Zip64 extra field', () => {
+      const buffer = createZipBuffer([{ ...fileEntry, zip64: true }]);
+
+      const [entry] = readCentralDirectory(
+        buffer,
+        readEndOfCentralDirectory(buffer),
+      );
+
+      expect(entry).toMatchObject({
+        compressedSize: 12,
+        uncompressedSize: 12,
+        usesZip64: true,
+      });
+    });
+
+    it('throws an InvalidZipFileError when the central directory is invalid', () => {
+      const buffer = createZipBuffer([fileEntry]);
+      const eocd = readEndOfCentralDirectory(buffer);
+
+      expect(() =>
+        readCentralDirectory(buffer, { ...eocd, entryCount: 2 }),
+      ).toThrow(InvalidZipFileError);
+    });
+  });
+
+  describe('readLocalFileHeader()', () => {
+    it('reads a local file header', () => {
+      const buffer = createZipBuffer([fileEntry]);
+
+      expect(readLocalFileHeader(buffer, 0)).toMatchObject({
+        compressedSize: 12,
+        dataStart: 30 + 'file.txt'.length,
+        fileName: 'file.txt',
+        offset: 0,
+      });
+    });
+
+    it('returns null when there is no local file header', () => {
+      const buffer = createZipBuffer([fileEntry]);
+
+      expect(readLocalFileHeader(buffer, 1)).toEqual(null);
+      expect(readLocalFileHeader(buffer, buffer.length - 10)).toEqual(null);
+    });
+  });
+
+  describe('createArchiveReport()', () => {
+    it('does not report anything for a regular archive', () => {
+      const report = createArchiveReport(
+        fs.readFileSync('src/tests/fixtures/io/simple-archive.zip'),
+      );
+
+      expect(report).toEqual({
+        anomalies: [],
+        comment: '',
+        entryCount: 1,
+        prependedBytes: 0,
+        trailingBytes: 0,
+        usesZip64: false,
+      });
+    });
+
+    it('reports prepended data', () => {
+      const buffer = Buffer.concat([
+        Buffer.from('#!/bin/sh\n'),
+        createZipBuffer([fileEntry]),
+      ]);
+
+      const report = createArchiveReport(buffer);
+
+      expect(report.prependedBytes).toEqual(10);
+      expect(report.anomalies).toEqual([
+        {
+          type: 'prepended-data',
+          message: 'Found 10 bytes before the first ZIP header',
+        },
+      ]);
+    });
+
+    it('reports prepended data in a Zip64 archive', () => {
+      const buffer = Buffer.concat([
+        Buffer.from('#!/bin/sh\n'),
+        createZipBuffer([fileEntry], { zip64EndOfCentralDirectory: true }),
+      ]);
+
+      const report = createArchiveReport(buffer);
+
+      expect(report.prependedBytes).toEqual(10);
+      expect(report.anomalies.map(({ type }) => type)).toEqual([
+        'prepended-data',
+        'zip64',
+      ]);
+    });
+
+    it('reports data before the first local file header', () => {
+      const buffer = createZipBuffer([
+        { ...fileEntry, localHeaderOffset: 42 + fileEntry.name.length },
+        { ...otherEntry, localHeaderOffset: 42 + fileEntry.name.length },
+      ]);
+
+      const report = createArchiveReport(buffer);
+
+      expect(report.prependedBytes).toEqual(42 + fileEntry.name.length);
+      expect(report.anomalies.map(({ type }) => type)).toContain(
+        'prepended-data',
+      );
+    });
+
+    it('reports trailing data', () => {
+      const buffer = Buffer.concat([
+        createZipBuffer([fileEntry]),
+        Buffer.from('trailing'),
+      ]);
+
+      const report = createArchiveReport(buffer);
+
+      expect(report.trailingBytes).toEqual(8);
+      expect(report.anomalies).toEqual([
+        {
+          type: 'trailing-data',
+          message: 'Found 8 bytes after the end of central directory record',
+        },
+      ]);
+    });
+
+    it('reports a comment', () => {
+      const buffer = createZipBuffer([fileEntry], { comment: 'hello' });
+
+      const report = createArchiveReport(buffer);
+
+      expect(report.comment).toEqual('hello');
+      expect(report.anomalies).toEqual([
+        { type: 'comment', message: 'Archive has a comment: "hello"' },
+      ]);
+    });
+
+    it('reports Zip64 usage', () => {
+      const buffer = createZipBuffer([{ ...fileEntry, zip64: true }]);
+
+      const report = createArchiveReport(buffer);
+
+      expect(report.usesZip64).toEqual(true);
+      expect(report.anomalies).toEqual([
+        { type: 'zip64', message: 'Archive uses Zip64' },
+      ]);
+    });
+
+    it('reports general purpose flags', () => {
+      const buffer = createZipBuffer([
+        { ...fileEntry, flags: 0x0808 },
+        // The UTF-8 flag alone is not reported.
+        { ...otherEntry, flags: 0x0800 },
+      ]);
+
+      const report = createArchiveReport(buffer);
+
+      expect(report.anomalies).toEqual([
+        {
+          type: 'general-purpose-flags',
+          message: 'Entry "file.txt" has general purpose flags set: 0x0008',
+          path: 'file.txt',
+        },
+      ]);
+    });
+
+    it('reports unexpected compression methods', () => {
+      const buffer = createZipBuffer([
+        { ...fileEntry, compressionMethod: 14 },
+        { ...otherEntry, compressionMethod: DEFLATE_COMPRESSION },
+      ]);
+
+      const report = createArchiveReport(buffer);
+
+      expect(report.anomalies).toEqual([
+        {
+          type: 'compression-method',
+          message: 'Entry "file.txt" uses an unexpected compression method: 14',
+          path: 'file.txt',
+        },
+      ]);
+    });
+
+    it('reports mismatching local and central headers', () => {
+      const buffer = createZipBuffer([{ ...fileEntry, localName: 'evil.txt' }]);
+
+      const report = createArchiveReport(buffer);
+
+      expect(report.anomalies).toEqual([
+        {
+          type: 'header-mismatch',
+          message:
+            'Local and central headers of entry "file.txt" do not match: file name',
+          path: 'file.txt',
+        },
+      ]);
+    });
+
+    it('reports missing local headers', () => {
+      const buffer = createZipBuffer([{ ...fileEntry, localHeaderOffset: 3 }]);
+
+      const report = createArchiveReport(buffer);
+
+      expect(report.anomalies).toContainEqual({
+        type: 'header-mismatch',
+        message: 'Entry "file.txt" has no valid local file header',
+        path: 'file.txt',
+      });
+    });
+
+    it('throws an InvalidZipFileError for invalid archives', () => {
+      expect(() => createArchiveReport(Buffer.from('not a zip'))).toThrow(
+        InvalidZipFileError,
+      );
+    });
+  });
+
+  describe('scanLocalFileHeaders()', () => {
+    it('returns the local file headers in order', () => {
+      const buffer = createZipBuffer([fileEntry, otherEntry]);
+
+      const headers = scanLocalFileHeaders(buffer, 0, buffer.length);
+
+      expect(
+        headers.map(({ fileName, offset }) => ({ fileName, offset })),
+      ).toEqual([
+        { fileName: 'file.txt', offset: 0 },
+        { fileName: 'other.txt', offset: 50 },
+      ]);
+    });
+
+    it('looks for the next header when the data size is unknown', () => {
+      const buffer = createZipBuffer([
+        // Bit 3 means that the size is stored after the data.
+        { ...fileEntry, flags: 0x0008 },
+        otherEntry,
+      ]);
+      // Pretend that the size is unknown in the local header.
+      buffer.writeUInt32LE(0, 18);
+
+      const headers = scanLocalFileHeaders(buffer, 0, buffer.length);
+
+      expect(headers.map(({ fileName }) => fileName)).toEqual([
+        'file.txt',
+        'other.txt',
+      ]);
+    });
+
+    it('finds headers after data that is not a header', () => {
+      const buffer = Buffer.concat([
+        Buffer.from('garbage'),
+        createZipBuffer([fileEntry]),
+      ]);
+
+      const headers = scanLocalFileHeaders(buffer, 0, buffer.length);
+
+      expect(headers.map(({ offset }) => offset)).toEqual([7]);
+    });
+
+    it('stops at the end of the given range', () => {
+      const buffer = createZipBuffer([fileEntry, otherEntry]);
+
+      const headers = scanLocalFileHeaders(buffer, 0, 50);
+
+      expect(headers.map(({ fileName }) => fileName)).toEqual(['file.txt']);
+    });
+  });
+
+  describe('createDeepScanResult()', () => {
+    it('does not report anything for a regular archive', () => {
+      const buffer = createZipBuffer([fileEntry, otherEntry]);
+
+      expect(createDeepScanResult(buffer)).toEqual({
+        hiddenEntries: [],
+        overlappingEntries: [],
+      });
+    });
+
+    it('reads a Zip64 archive with prepended data', () => {
+      const buffer = Buffer.concat([
+        Buffer.from('#!/bin/sh\n'),
+        createZipBuffer([fileEntry, otherEntry], {
+          zip64EndOfCentralDirectory: true,
+        }),
+      ]);
+
+      expect(createDeepScanResult(buffer)).toEqual({
+        hiddenEntries: [],
+        overlappingEntries: [],
+      });
+    });
+
+    it('reports entries that are not in the central directory', () => {
+      const buffer = createZipBuffer([
+        fileEntry,
+        { name: 'hidden.js', data: Buffer.from('evil()'), hidden: true },
+        otherEntry,
+      ]);
+
+      expect(createDeepScanResult(buffer)).toEqual({
+        hiddenEntries: [{ path: 'hidden.js', offset: 50 }],
+        overlappingEntries: [],
+      });
+    });
+
+    it('reports entries hidden in prepended and trailing data', () => {
+      const hiddenZip = createZipBuffer([
+        { name: 'hidden.js', data: Buffer.from('evil()'), hidden: true },
+      ]);
+      // Drop the (empty) end of central directory record.
+      const hiddenPart = hiddenZip.subarray(0, hiddenZip.length - 22);
+      const buffer = Buffer.concat([
+        hiddenPart,
+        createZipBuffer([fileEntry]),
+        hiddenPart,
+      ]);
+
+      const { hiddenEntries } = createDeepScanResult(buffer);
+
+      expect(hiddenEntries.map(({ path }) => path)).toEqual([
+        'hidden.js',
+        'hidden.js',
+      ]);
+    });
+
+    it('reports entries hidden inside the data of another entry', () => {
+      const hiddenPart = createZipBuffer([
+        { name: 'hidden.js', data: Buffer.from('evil()') },
+      ]);
+      const buffer = createZipBuffer([{ name: 'image.png', data: hiddenPart }]);
+      // Make the local header lie about the size of the data, like a
+      // sequential unzip tool would read it.
+      buffer.writeUInt32LE(0, 18);
+
+      const { hiddenEntries } = createDeepScanResult(buffer);
+
+      expect(hiddenEntries).toEqual([{ path: 'hidden.js', offset: 39 }]);
+    });
+
+    it('reports entries whose data overlap', () => {
+      const buffer = createZipBuffer([
+        fileEntry,
+        { ...otherEntry, localHeaderOffset: 0 },
+      ]);
+
+      expect(createDeepScanResult(buffer).overlappingEntries).toEqual([
+        { path: 'other.txt', overlapsWith: 'file.txt' },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,657 @@
+/* eslint-disable no-bitwise */
+import { oneLine } from 'common-tags';
+
+import { DEFLATE_COMPRESSION, NO_COMPRESSION } from './const';
+import { InvalidZipFileError } from '../errors';
+
+// This module implements just enough of the ZIP file format (APPNOTE.TXT) to
+// inspect the structure of an archive, which is something `yauzl` does not
+// expose.
+
+export const LOCAL_FILE_HEADER_SIGNATURE = 0x04034b50;
+export const CENTRAL_DIRECTORY_HEADER_SIGNATURE = 0x02014b50;
+export const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+export const ZIP64_END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06064b50;
+export const ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR_SIGNATURE = 0x07064b50;
+
+export const LOCAL_FILE_HEADER_LENGTH = 30;
+export const CENTRAL_DIRECTORY_HEADER_LENGTH = 46;
+export const END_OF_CENTRAL_DIRECTORY_LENGTH = 22;
+const ZIP64_END_OF_CENTRAL_DIRECTORY_LENGTH = 56;
+const ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR_LENGTH = 20;
+const MAX_COMMENT_LENGTH = 0xffff;
+const ZIP64_EXTRA_FIELD_ID = 0x0001;
+const ZIP64_MARKER = 0xffffffff;
+// The "version made by" host system of archives created on unix, which store
+// the unix mode in the upper 16 bits of the external file attributes.
+const UNIX_HOST_SYSTEM = 3;
+
+// Bit 0 means that the entry is encrypted, either with the traditional PKWARE
+// encryption or with a stronger method (e.g. AES).
+export const ENCRYPTED_FLAG = 0x0001;
+// Bit 3 means that the CRC-32 and sizes are stored in a data descriptor after
+// the file data instead of in the local file header.
+export const DATA_DESCRIPTOR_FLAG = 0x0008;
+// Bit 11 means that the file name is encoded in UTF-8.
+export const UTF8_FLAG = 0x0800;
+
+export function isEncrypted(flags: number): boolean {
+  return (flags & ENCRYPTED_FLAG) !== 0;
+}
+
+/*
+ * Returns the unix mode of an entry from the fields of its central directory
+ * header, or `null` when the archive was not created on unix.
+ */
+export function getUnixMode(
+  versionMadeBy: number,
+  externalFileAttributes: number,
+): number | null {
+  if (versionMadeBy >> 8 !== UNIX_HOST_SYSTEM) {
+    return null;
+  }
+
+  const mode = externalFileAttributes >>> 16;
+
+  return mode === 0 ? null : mode;
+}
+
+/*
+ * Returns the permission bits of a unix mode, i.e. without the file type and
+ * the setuid, setgid and sticky bits.
+ */
+export function getPermissionBits(mode: number): number {
+  return mode & 0o777;
+}
+
+export type EndOfCentralDirectory = {
+  // Offset of the (non Zip64) end of central directory record.
+  offset: number;
+  // Offset of the first byte after the record and its comment.
+  end: number;
+  centralDirectoryOffset: number;
+  centralDirectorySize: number;
+  comment: Buffer;
+  entryCount: number;
+  // Offset of the Zip64 end of central directory record if there is one.
+  zip64Offset: number | null;
+};
+
+export type CentralDirectoryEntry = {
+  compressedSize: number;
+  compressionMethod: number;
+  crc32: number;
+  fileName: string;
+  fileNameRaw: Buffer;
+  flags: number;
+  localHeaderOffset: number;
+  uncompressedSize: number;
+  usesZip64: boolean;
+};
+
+export type LocalFileHeader = {
+  compressedSize: number;
+  compressionMethod: number;
+  crc32: number;
+  dataStart: number;
+  fileName: string;
+  fileNameRaw: Buffer;
+  flags: number;
+  offset: number;
+  uncompressedSize: number;
+};
+
+export type ArchiveAnomalyType =
+  | 'comment'
+  | 'compression-method'
+  | 'general-purpose-flags'
+  | 'header-mismatch'
+  | 'prepended-data'
+  | 'trailing-data'
+  | 'zip64';
+
+export type ArchiveAnomaly = {
+  type: ArchiveAnomalyType;
+  message: string;
+  // Set when the anomaly is about a specific entry.
+  path?: string;
+};
+
+export type ArchiveReport = {
+  anomalies: ArchiveAnomaly[];
+  comment: string;
+  entryCount: number;
+  prependedBytes: number;
+  trailingBytes: number;
+  usesZip64: boolean;
+};
+
+export type HiddenEntry = {
+  path: string;
+  // Offset of the local file header in the archive.
+  offset: number;
+};
+
+export type OverlappingEntry = {
+  path: string;
+  overlapsWith: string;
+};
+
+export type DeepScanResult = {
+  // Local file entries that are not listed in the central directory.
+  hiddenEntries: HiddenEntry[];
+  // Central directory entries whose data overlaps with another entry.
+  overlappingEntries: OverlappingEntry[];
+};
+
+const LOCAL_FILE_HEADER_SIGNATURE_BYTES = Buffer.from([0x50, 0x4b, 0x03, 0x04]);
+
+const readUInt64LE = (buffer: Buffer, offset: number) => {
+  // This is precise up to 2^53 bytes, which is more than enough.
+  return (
+    buffer.readUInt32LE(offset) + buffer.readUInt32LE(offset + 4) * 0x100000000
+  );
+};
+
+const decodeFileName = (fileNameRaw: Buffer, flags: number) => {
+  return fileNameRaw.toString(flags & UTF8_FLAG ? 'utf8' : 'latin1');
+};
+
+function findEndOfCentralDirectory(buffer: Buffer): number {
+  const minOffset = Math.max(
+    0,
+    buffer.length - END_OF_CENTRAL_DIRECTORY_LENGTH - MAX_COMMENT_LENGTH,
+  );
+
+  // The record ends with a variable length comment so we have to search for
+  // it backwards.
+  for (
+    let offset = buffer.length - END_OF_CENTRAL_DIRECTORY_LENGTH;
+    offset >= minOffset;
+    offset--
+  ) {
+    if (
+      buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY_SIGNATURE &&
+      offset +
+        END_OF_CENTRAL_DIRECTORY_LENGTH +
+        buffer.readUInt16LE(offset + 20) <=
+        buffer.length
+    ) {
+      return offset;
+    }
+  }
+
+  return -1;
+}
+
+export function readEndOfCentralDirectory(
+  buffer: Buffer,
+): EndOfCentralDirectory {
+  const offset = findEndOfCentralDirectory(buffer);
+
+  if (offset === -1) {
+    throw new InvalidZipFileError(
+      'End of central directory record signature not found',
+    );
+  }
+
+  const end =
+    offset + END_OF_CENTRAL_DIRECTORY_LENGTH + buffer.readUInt16LE(offset + 20);
+  const eocd: EndOfCentralDirectory = {
+    offset,
+    end,
+    centralDirectoryOffset: buffer.readUInt32LE(offset + 16),
+    centralDirectorySize: buffer.readUInt32LE(offset + 12),
+    comment: buffer.subarray(offset + END_OF_CENTRAL_DIRECTORY_LENGTH, end),
+    entryCount: buffer.readUInt16LE(offset + 10),
+    zip64Offset: null,
+  };
+
+  const locatorOffset = offset - ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR_LENGTH;
+
+  if (
+    locatorOffset >= 0 &&
+    buffer.readUInt32LE(locatorOffset) ===
+      ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR_SIGNATURE
+  ) {
+    const isZip64Record = (zip64Offset: number) =>
+      zip64Offset >= 0 &&
+      zip64Offset + ZIP64_END_OF_CENTRAL_DIRECTORY_LENGTH <= buffer.length &&
+      buffer.readUInt32LE(zip64Offset) ===
+        ZIP64_END_OF_CENTRAL_DIRECTORY_SIGNATURE;
+
+    // The recorded offset is wrong when data has been prepended to the
+    // archive, in which case we look for the record right before the locator
+    // (where it is when it has no extensible data) so that the shift can be
+    // computed like for the other archives.
+    const zip64Offset = [
+      readUInt64LE(buffer, locatorOffset + 8),
+      locatorOffset - ZIP64_END_OF_CENTRAL_DIRECTORY_LENGTH,
+    ].find(isZip64Record);
+
+    if (zip64Offset === undefined) {
+      throw new InvalidZipFileError(
+        'Invalid Zip64 end of central directory record',
+      );
+    }
+
+    eocd.zip64Offset = zip64Offset;
+    eocd.entryCount = readUInt64LE(buffer, zip64Offset + 32);
+    eocd.centralDirectorySize = readUInt64LE(buffer, zip64Offset + 40);
+    eocd.centralDirectoryOffset = readUInt64LE(buffer, zip64Offset + 48);
+  }
+
+  return eocd;
+}
+
+/*
+ * Returns the number of bytes that have been prepended to the archive without
+ * updating the offsets stored in it, e.g. with self-extracting archives.
+ */
+export function getOffsetShift(eocd: EndOfCentralDirectory): number {
+  const centralDirectoryEnd =
+    eocd.zip64Offset === null ? eocd.offset : eocd.zip64Offset;
+
+  return (
+    centralDirectoryEnd -
+    eocd.centralDirectorySize -
+    eocd.centralDirectoryOffset
+  );
+}
+
+function findExtraField(extraFields: Buffer, id: number): Buffer | null {
+  let offset = 0;
+
+  while (offset + 4 <= extraFields.length) {
+    const size = extraFields.readUInt16LE(offset + 2);
+
+    if (extraFields.readUInt16LE(offset) === id) {
+      return extraFields.subarray(offset + 4, offset + 4 + size);
+    }
+
+    offset += 4 + size;
+  }
+
+  return null;
+}
+
+/*
+ * The Zip64 extended information extra field contains the values that did
+ * not fit in the central directory file header, in this order.
+ */
+function readZip64ExtraField(
+  entry: CentralDirectoryEntry,
+  data: Buffer,
+): CentralDirectoryEntry {
+  let offset = 0;
+
+  const readValue = (value: number) => {
+    if (value !== ZIP64_MARKER || offset + 8 > data.length) {
+      return value;
+    }
+
+    const zip64Value = readUInt64LE(data, offset);
+    offset += 8;
+    return zip64Value;
+  };
+
+  const uncompressedSize = readValue(entry.uncompressedSize);
+  const compressedSize = readValue(entry.compressedSize);
+  const localHeaderOffset = readValue(entry.localHeaderOffset);
+
+  return {
+    ...entry,
+    compressedSize,
+    localHeaderOffset,
+    uncompressedSize,
+    usesZip64: true,
+  };
+}
+
+export function readCentralDirectory(
+  buffer: Buffer,
+  eocd: EndOfCentralDirectory,
+): CentralDirectoryEntry[] {
+  const entries: CentralDirectoryEntry[] = [];
+  let offset = eocd.centralDirectoryOffset + getOffsetShift(eocd);
+
+  for (let i = 0; i < eocd.entryCount; i++) {
+    if (
+      offset < 0 ||
+      offset + CENTRAL_DIRECTORY_HEADER_LENGTH > buffer.length ||
+      buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER_SIGNATURE
+    ) {
+      throw new InvalidZipFileError(oneLine`Invalid central directory file
+        header signature at offset ${offset}`);
+    }
+
+    const flags = buffer.readUInt16LE(offset + 8);
+    const fileNameLength = buffer.readUInt16LE(offset + 28);
+    const extraFieldLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const fileNameStart = offset + CENTRAL_DIRECTORY_HEADER_LENGTH;
+    const extraFieldStart = fileNameStart + fileNameLength;
+    const end = extraFieldStart + extraFieldLength + commentLength;
+
+    if (end > buffer.length) {
+      throw new InvalidZipFileError(oneLine`Central directory file header at
+        offset ${offset} overflows the archive`);
+    }
+
+    const fileNameRaw = buffer.subarray(fileNameStart, extraFieldStart);
+    let entry: CentralDirectoryEntry = {
+      compressedSize: buffer.readUInt32LE(offset + 20),
+      compressionMethod: buffer.readUInt16LE(offset + 10),
+      crc32: buffer.readUInt32LE(offset + 16),
+      fileName: decodeFileName(fileNameRaw, flags),
+      fileNameRaw,
+      flags,
+      localHeaderOffset: buffer.readUInt32LE(offset + 42),
+      uncompressedSize: buffer.readUInt32LE(offset + 24),
+      usesZip64: false,
+    };
+
+    const zip64ExtraField = findExtraField(
+      buffer.subarray(extraFieldStart, extraFieldStart + extraFieldLength),
+      ZIP64_EXTRA_FIELD_ID,
+    );
+    if (zip64ExtraField) {
+      entry = readZip64ExtraField(entry, zip64ExtraField);
+    }
+
+    entries.push(entry);
+    offset = end;
+  }
+
+  return entries;
+}
+
+export function readLocalFileHeader(
+  buffer: Buffer,
+  offset: number,
+): LocalFileHeader | null {
+  if (
+    offset < 0 ||
+    offset + LOCAL_FILE_HEADER_LENGTH > buffer.length ||
+    buffer.readUInt32LE(offset) !== LOCAL_FILE_HEADER_SIGNATURE
+  ) {
+    return null;
+  }
+
+  const flags = buffer.readUInt16LE(offset + 6);
+  const fileNameLength = buffer.readUInt16LE(offset + 26);
+  const extraFieldLength = buffer.readUInt16LE(offset + 28);
+  const fileNameStart = offset + LOCAL_FILE_HEADER_LENGTH;
+  const dataStart = fileNameStart + fileNameLength + extraFieldLength;
+
+  if (dataStart > buffer.length) {
+    return null;
+  }
+
+  const fileNameRaw = buffer.subarray(
+    fileNameStart,
+    fileNameStart + fileNameLength,
+  );
+
+  return {
+    compressedSize: buffer.readUInt32LE(offset + 18),
+    compressionMethod: buffer.readUInt16LE(offset + 8),
+    crc32: buffer.readUInt32LE(offset + 14),
+    dataStart,
+    fileName: decodeFileName(fileNameRaw, flags),
+    fileNameRaw,
+    flags,
+    offset,
+    uncompressedSize: buffer.readUInt32LE(offset + 22),
+  };
+}
+
+function compareHeaders(
+  entry: CentralDirectoryEntry,
+  localHeader: LocalFileHeader,
+): string[] {
+  const mismatches = [];
+
+  if (!entry.fileNameRaw.equals(localHeader.fileNameRaw)) {
+    mismatches.push('file name');
+  }
+  if (entry.flags !== localHeader.flags) {
+    mismatches.push('general purpose flags');
+  }
+  if (entry.compressionMethod !== localHeader.compressionMethod) {
+    mismatches.push('compression method');
+  }
+
+  // These values are stored in a data descriptor or in a Zip64 extra field
+  // instead of the local header in some cases.
+  if (!(localHeader.flags & DATA_DESCRIPTOR_FLAG)) {
+    if (entry.crc32 !== localHeader.crc32) {
+      mismatches.push('CRC-32');
+    }
+    if (
+      localHeader.compressedSize !== ZIP64_MARKER &&
+      entry.compressedSize !== localHeader.compressedSize
+    ) {
+      mismatches.push('compressed size');
+    }
+    if (
+      localHeader.uncompressedSize !== ZIP64_MARKER &&
+      entry.uncompressedSize !== localHeader.uncompressedSize
+    ) {
+      mismatches.push('uncompressed size');
+    }
+  }
+
+  return mismatches;
+}
+
+/*
+ * Inspects the structure of a ZIP archive and reports everything that is
+ * unusual for an add-on, which can be a sign of tampering.
+ */
+export function createArchiveReport(buffer: Buffer): ArchiveReport {
+  const eocd = readEndOfCentralDirectory(buffer);
+  const entries = readCentralDirectory(buffer, eocd);
+  const shift = getOffsetShift(eocd);
+  const anomalies: ArchiveAnomaly[] = [];
+
+  const firstHeaderOffset = Math.min(
+    eocd.centralDirectoryOffset + shift,
+    ...entries.map((entry) => entry.localHeaderOffset + shift),
+  );
+  const prependedBytes = Math.max(0, firstHeaderOffset);
+  const trailingBytes = buffer.length - eocd.end;
+  const usesZip64 =
+    eocd.zip64Offset !== null || entries.some((entry) => entry.usesZip64);
+  const comment = eocd.comment.toString('utf8');
+
+  if (prependedBytes > 0) {
+    anomalies.push({
+      type: 'prepended-data',
+      message: `Found ${prependedBytes} bytes before the first ZIP header`,
+    });
+  }
+
+  if (trailingBytes > 0) {
+    anomalies.push({
+      type: 'trailing-data',
+      message: oneLine`Found ${trailingBytes} bytes after the end of central
+        directory record`,
+    });
+  }
+
+  if (eocd.comment.length > 0) {
+    anomalies.push({
+      type: 'comment',
+      message: `Archive has a comment: "${comment}"`,
+    });
+  }
+
+  if (usesZip64) {
+    anomalies.push({ type: 'zip64', message: 'Archive uses Zip64' });
+  }
+
+  entries.forEach((entry) => {
+    const path = entry.fileName;
+
+    // Setting the UTF-8 flag is common and expected for non-ASCII names.
+    const flags = entry.flags & ~UTF8_FLAG;
+    if (flags) {
+      anomalies.push({
+        type: 'general-purpose-flags',
+        message: oneLine`Entry "${path}" has general purpose flags set:
+          0x${flags.toString(16).padStart(4, '0')}`,
+        path,
+      });
+    }
+
+    if (
+      entry.compressionMethod !== DEFLATE_COMPRESSION &&
+      entry.compressionMethod !== NO_COMPRESSION
+    ) {
+      anomalies.push({
+        type: 'compression-method',
+        message: oneLine`Entry "${path}" uses an unexpected compression
+          method: ${entry.compressionMethod}`,
+        path,
+      });
+    }
+
+    const localHeader = readLocalFileHeader(
+      buffer,
+      entry.localHeaderOffset + shift,
+    );
+
+    if (!localHeader) {
+      anomalies.push({
+        type: 'header-mismatch',
+        message: `Entry "${path}" has no valid local file header`,
+        path,
+      });
+      return;
+    }
+
+    const mismatches = compareHeaders(entry, localHeader);
+    if (mismatches.length) {
+      anomalies.push({
+        type: 'header-mismatch',
+        message: oneLine`Local and central headers of entry "${path}" do not
+          match: ${mismatches.join(', ')}`,
+        path,
+      });
+    }
+  });
+
+  return {
+    anomalies,
+    comment,
+    entryCount: entries.length,
+    prependedBytes,
+    trailingBytes,
+    usesZip64,
+  };
+}
+
+/*
+ * Returns the local file headers found by reading the archive sequentially
+ * between `start` and `end`, like streaming unzip tools do. When the size of
+ * the data of an entry is unknown, we look for the next local file header
+ * signature instead.
+ */
+export function scanLocalFileHeaders(
+  buffer: Buffer,
+  start: number,
+  end: number,
+): LocalFileHeader[] {
+  const headers: LocalFileHeader[] = [];
+  let offset = start;
+
+  while (offset >= 0 && offset + LOCAL_FILE_HEADER_LENGTH <= end) {
+    const header = readLocalFileHeader(buffer, offset);
+    let nextOffset = offset + 1;
+
+    if (header) {
+      headers.push(header);
+
+      const hasKnownSize =
+        !(header.flags & DATA_DESCRIPTOR_FLAG) &&
+        header.compressedSize !== ZIP64_MARKER;
+
+      if (hasKnownSize) {
+        nextOffset = header.dataStart + header.compressedSize;
+      }
+    }
+
+    // The header was invalid, the size of the data is unknown or there is
+    // data (e.g. a data descriptor) between two entries.
+    if (
+      nextOffset + 4 > end ||
+      buffer.readUInt32LE(nextOffset) !== LOCAL_FILE_HEADER_SIGNATURE
+    ) {
+      nextOffset = buffer.indexOf(
+        LOCAL_FILE_HEADER_SIGNATURE_BYTES,
+        Math.max(nextOffset, offset + 1),
+      );
+    }
+
+    offset = nextOffset;
+  }
+
+  return headers;
+}
+
+/*
+ * Looks for entries that are hidden from tools that only read the central
+ * directory (like `yauzl`) but that tools reading the archive sequentially
+ * would extract, as well as entries sharing the same data.
+ */
+export function createDeepScanResult(buffer: Buffer): DeepScanResult {
+  const eocd = readEndOfCentralDirectory(buffer);
+  const entries = readCentralDirectory(buffer, eocd);
+  const shift = getOffsetShift(eocd);
+
+  const ranges = entries
+    .map((entry) => {
+      const offset = entry.localHeaderOffset + shift;
+      const localHeader = readLocalFileHeader(buffer, offset);
+      const dataStart = localHeader
+        ? localHeader.dataStart
+        : offset + LOCAL_FILE_HEADER_LENGTH;
+
+      return {
+        path: entry.fileName,
+        start: offset,
+        end: dataStart + entry.compressedSize,
+      };
+    })
+    .sort((a, b) => a.start - b.start);
+
+  const overlappingEntries: OverlappingEntry[] = [];
+  // The range that ends the furthest among the ranges seen so far.
+  let furthestRange: (typeof ranges)[number] | null = null;
+  ranges.forEach((range) => {
+    if (furthestRange && range.start < furthestRange.end) {
+      overlappingEntries.push({
+        path: range.path,
+        overlapsWith: furthestRange.path,
+      });
+    }
+
+    if (!furthestRange || range.end > furthestRange.end) {
+      furthestRange = range;
+    }
+  });
+
+  const knownOffsets = new Set(ranges.map((range) => range.start));
+  const centralDirectoryStart = eocd.centralDirectoryOffset + shift;
+  const localHeaders = [
+    ...scanLocalFileHeaders(buffer, 0, centralDirectoryStart),
+    ...scanLocalFileHeaders(buffer, eocd.end, buffer.length),
+  ];
+
+  const hiddenEntries = localHeaders
+    .filter((header) => !knownOffsets.has(header.offset))
+    .map((header) => ({ path: header.fileName, offset: header.offset }));
+
+  return { hiddenEntries, overlappingEntries };
+}
@@ -76,3 +76,141 @@ export const createFakeZipFile = ({
     validateEntrySizes,
   );
 };
+
+export type FakeZipEntry = {
+  name: string;
+  data?: Buffer;
+  compressionMethod?: number;
+  crc32?: number;
+  flags?: number;
+  // Only write the local file header and data, i.e. omit the entry from the
+  // central directory.
+  hidden?: boolean;
+  // Use a different name in the local file header.
+  localName?: string;
+  // Use a different offset than the actual one in the central directory.
+  localHeaderOffset?: number;
+  // The unix mode of the entry, which marks the archive as made on unix.
+  mode?: number;
+  // Store the sizes in a Zip64 extended information extra field.
+  zip64?: boolean;
+};
+
+/*
+ * Builds a ZIP archive byte by byte so that tests can create archives with
+ * structural oddities. The data of the entries is always stored as is.
+ */
+export const createZipBuffer = (
+  entries: FakeZipEntry[],
+  {
+    comment = '',
+    // Write a Zip64 end of central directory record and its locator.
+    zip64EndOfCentralDirectory = false,
+  } = {},
+): Buffer => {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  entries.forEach(
+    ({
+      name,
+      data = Buffer.alloc(0),
+      compressionMethod = 0,
+      crc32 = 0,
+      flags = 0,
+      hidden = false,
+      localName = name,
+      localHeaderOffset = offset,
+      mode,
+      zip64 = false,
+    }) => {
+      const size = zip64 ? 0xffffffff : data.length;
+      const extraField = Buffer.alloc(zip64 ? 20 : 0);
+      if (zip64) {
+        extraField.writeUInt16LE(0x0001, 0);
+        extraField.writeUInt16LE(16, 2);
+        extraField.writeUInt32LE(data.length, 4);
+        extraField.writeUInt32LE(data.length, 12);
+      }
+
+      const localHeader = Buffer.alloc(30);
+      localHeader.writeUInt32LE(0x04034b50, 0);
+      localHeader.writeUInt16LE(20, 4);
+      localHeader.writeUInt16LE(flags, 6);
+      localHeader.writeUInt16LE(compressionMethod, 8);
+      localHeader.writeUInt32LE(crc32, 14);
+      localHeader.writeUInt32LE(size, 18);
+      localHeader.writeUInt32LE(size, 22);
+      localHeader.writeUInt16LE(Buffer.byteLength(localName), 26);
+      localHeader.writeUInt16LE(extraField.length, 28);
+
+      const centralHeader = Buffer.alloc(46);
+      centralHeader.writeUInt32LE(0x02014b50, 0);
+      // The host system is stored in the upper byte, 3 is unix.
+      centralHeader.writeUInt16LE(mode === undefined ? 20 : 0x0300 + 20, 4);
+      centralHeader.writeUInt16LE(20, 6);
+      centralHeader.writeUInt16LE(flags, 8);
+      centralHeader.writeUInt16LE(compressionMethod, 10);
+      centralHeader.writeUInt32LE(crc32, 16);
+      centralHeader.writeUInt32LE(size, 20);
+      centralHeader.writeUInt32LE(size, 24);
+      centralHeader.writeUInt16LE(Buffer.byteLength(name), 28);
+      centralHeader.writeUInt16LE(extraField.length, 30);
+      centralHeader.writeUInt32LE((mode || 0) * 0x10000, 38);
+      centralHeader.writeUInt32LE(localHeaderOffset, 42);
+
+      const localPart = Buffer.concat([
+        localHeader,
+        Buffer.from(localName),
+        extraField,
+        data,
+      ]);
+      localParts.push(localPart);
+      if (!hidden) {
+        centralParts.push(
+          Buffer.concat([centralHeader, Buffer.from(name), extraField]),
+        );
+      }
+      offset += localPart.length;
+    },
+  );
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const endOfCentralDirectory = Buffer.alloc(22);
+  endOfCentralDirectory.writeUInt32LE(0x06054b50, 0);
+  endOfCentralDirectory.writeUInt16LE(centralParts.length, 8);
+  endOfCentralDirectory.writeUInt16LE(centralParts.length, 10);
+  endOfCentralDirectory.writeUInt32LE(centralDirectory.length, 12);
+  endOfCentralDirectory.writeUInt32LE(offset, 16);
+  endOfCentralDirectory.writeUInt16LE(Buffer.byteLength(comment), 20);
+
+  const zip64Parts: Buffer[] = [];
+  if (zip64EndOfCentralDirectory) {
+    // The 64-bit values are small enough to only write their lower half.
+    const zip64Record = Buffer.alloc(56);
+    zip64Record.writeUInt32LE(0x06064b50, 0);
+    zip64Record.writeUInt32LE(44, 4);
+    zip64Record.writeUInt16LE(45, 12);
+    zip64Record.writeUInt16LE(45, 14);
+    zip64Record.writeUInt32LE(centralParts.length, 24);
+    zip64Record.writeUInt32LE(centralParts.length, 32);
+    zip64Record.writeUInt32LE(centralDirectory.length, 40);
+    zip64Record.writeUInt32LE(offset, 48);
+
+    const zip64Locator = Buffer.alloc(20);
+    zip64Locator.writeUInt32LE(0x07064b50, 0);
+    zip64Locator.writeUInt32LE(offset + centralDirectory.length, 8);
+    zip64Locator.writeUInt32LE(1, 16);
+
+    zip64Parts.push(zip64Record, zip64Locator);
+  }
+
+  return Buffer.concat([
+    ...localParts,
+    centralDirectory,
+    ...zip64Parts,
+    endOfCentralDirectory,
+    Buffer.from(comment),
+  ]);
+};